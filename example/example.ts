@@ -1,4 +1,4 @@
-import { FlowControl, Task, TaskGroup } from "../src";
+import { FlowControl, ProgressRenderer, Task, TaskGroup } from "../src";
 
 const exampleTasks = [
   {
@@ -62,6 +62,7 @@ const exampleTasks = [
       },
       {
         id: "Deploy Essential Services",
+        parallel: true,
         children: [
           {
             id: "Set Up Monitoring",
@@ -81,46 +82,16 @@ const exampleTasks = [
   },
 ];
 
-const printStateRecursively = (state, depth) => {
-  Object.keys(state).forEach((key) => {
-    const item = state[key];
-    const indent = "| ".repeat(depth);
-    let output = `${indent}${key}:`;
-
-    if (item.state === "completed") {
-      output += ` ✅ (` + item.time + "ms)";
-    } else if (item.state === "failed") {
-      output += ` ❌ (${item.time}ms)`;
-    }
-
-    console.log(output);
-    if (item.type === "task-group" && item.children) {
-      printStateRecursively(item.children, depth + 1);
-    }
-  });
-};
-
-const printoutState = (serializedState) => {
-  printStateRecursively(serializedState, 0);
-};
-
 const flowControl = new FlowControl();
 
-// For debugging purposes let's print
-// some output to the command line
-
-flowControl.on("taskStarted", (task) => {
-  const serailizedState = flowControl.getSerializedState();
-  console.log(`Task ${task.id} started \n`);
-  printoutState(serailizedState);
-  console.log("\n");
-});
+// Show the progress of the flow on the command line
+const renderer = new ProgressRenderer(flowControl);
 
 const populateTasks = (taskBlueprint, parentGroup) => {
   if (taskBlueprint.children && taskBlueprint.children.length > 0) {
     taskBlueprint.children.forEach((child) => {
       if (child.children) {
-        const group = new TaskGroup(child.id);
+        const group = new TaskGroup(child.id, { parallel: child.parallel });
         populateTasks(child, group);
         parentGroup.addChild(group);
       } else {
@@ -143,5 +114,10 @@ const populateTasks = (taskBlueprint, parentGroup) => {
     flowControl.addGroup(group);
   }
 
-  await flowControl.run();
+  renderer.start();
+  try {
+    await flowControl.run();
+  } finally {
+    renderer.stop();
+  }
 })();
@@ -0,0 +1,162 @@
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { EXIT_CODES, main } from "../cli";
+
+const workflow = `
+groups:
+  - id: setup
+    children:
+      - id: prepare
+        execute: ok
+        nextTasks: [install]
+      - id: install
+        execute: install
+`;
+
+const handlers = `
+const fs = require("fs");
+module.exports = {
+  execute: {
+    ok: async () => {},
+    install: async ({ inputs }) => {
+      if (!fs.existsSync(inputs.marker)) {
+        throw new Error("not ready");
+      }
+    },
+  },
+};
+`;
+
+describe("flow-like-water", () => {
+  let directory: string;
+  let stdout: string;
+  let stderr: string;
+  const io = {
+    stdout: { write: (text: string) => (stdout += text) },
+    stderr: { write: (text: string) => (stderr += text) },
+  };
+  const file = (name: string) => path.join(directory, name);
+  const cli = (...args: string[]) => main(args, io);
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "cli-"));
+    stdout = "";
+    stderr = "";
+    await fs.writeFile(file("workflow.yaml"), workflow);
+    await fs.writeFile(file("handlers.js"), handlers);
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it("runs a workflow, saves its state and resumes it", async () => {
+    const args = [
+      file("workflow.yaml"),
+      "--handlers",
+      file("handlers.js"),
+      "--state",
+      file("state.json"),
+      "--input",
+      `marker=${file("marker")}`,
+    ];
+
+    expect(await cli("run", ...args)).toBe(EXIT_CODES.failed);
+    expect(stdout).toContain("✔ prepare completed");
+    expect(stdout).toContain("✖ install failed: not ready");
+
+    expect(await cli("status", "--state", file("state.json"))).toBe(
+      EXIT_CODES.failed
+    );
+    expect(stdout).toContain("setup [failed");
+
+    await fs.writeFile(file("marker"), "");
+    stdout = "";
+    expect(await cli("resume", ...args)).toBe(EXIT_CODES.success);
+    expect(stdout).not.toContain("prepare started");
+    expect(stdout).toContain("✔ install completed");
+  });
+
+  it("validates workflows and reports schema errors", async () => {
+    expect(
+      await cli(
+        "validate",
+        file("workflow.yaml"),
+        "--handlers",
+        file("handlers.js")
+      )
+    ).toBe(EXIT_CODES.success);
+
+    await fs.writeFile(
+      file("broken.yaml"),
+      "groups:\n" +
+        "  - id: setup\n" +
+        "    children:\n" +
+        "      - id: task\n" +
+        "        retries: -1\n"
+    );
+    expect(await cli("validate", file("broken.yaml"))).toBe(
+      EXIT_CODES.invalid
+    );
+    expect(stderr).toContain("$.groups[0].children[0].execute: Required");
+    expect(stderr).toContain("$.groups[0].children[0].retries");
+  });
+
+  it("validates the flow built from a workflow", async () => {
+    await fs.writeFile(
+      file("cycle.yaml"),
+      "groups:\n" +
+        "  - id: setup\n" +
+        "    children:\n" +
+        "      - id: prepare\n" +
+        "        execute: ok\n" +
+        "        dependsOn: [install]\n" +
+        "      - id: install\n" +
+        "        execute: ok\n" +
+        "        dependsOn: [prepare, missing]\n" +
+        "  - id: cleanup\n" +
+        "    children: []\n"
+    );
+
+    expect(await cli("validate", file("cycle.yaml"))).toBe(
+      EXIT_CODES.invalid
+    );
+    expect(stderr).toContain(
+      'error $["setup"].children["install"].dependsOn[1]: Unknown task missing'
+    );
+    expect(stderr).toContain("Dependency cycle detected");
+    expect(stdout).toBe('warning $["cleanup"]: Task group has no children\n');
+  });
+
+  it("prints the graph of a workflow", async () => {
+    expect(await cli("graph", file("workflow.yaml"))).toBe(EXIT_CODES.success);
+    expect(stdout).toBe("setup\n  prepare -> install\n  install\n");
+  });
+
+  it("reports thrown values that are not errors", async () => {
+    await fs.writeFile(
+      file("null.js"),
+      "module.exports = { get execute() { throw null; } };\n"
+    );
+    await fs.writeFile(
+      file("coded.js"),
+      "throw Object.assign(new Error('broken'), { code: 42 });\n"
+    );
+
+    for (const name of ["null.js", "coded.js"]) {
+      expect(
+        await cli("run", file("workflow.yaml"), "--handlers", file(name))
+      ).toBe(EXIT_CODES.failed);
+    }
+    expect(stderr).toBe("null\nbroken\n");
+  });
+
+  it("rejects invalid command lines", async () => {
+    expect(await cli("deploy")).toBe(EXIT_CODES.usage);
+    expect(await cli("run", file("workflow.yaml"))).toBe(EXIT_CODES.usage);
+    expect(await cli("run", "--unknown")).toBe(EXIT_CODES.usage);
+    expect(stderr).toContain('Unknown command "deploy"');
+    expect(stderr).toContain("The --handlers option is required");
+  });
+});
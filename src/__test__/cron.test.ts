@@ -0,0 +1,65 @@
+import { CronExpression } from "../cron";
+
+const next = (source: string, after: string) =>
+  new Date(
+    new CronExpression(source, { utc: true }).next(Date.parse(after))!
+  ).toISOString();
+
+describe("CronExpression", () => {
+  it("finds the next matching minute", () => {
+    expect(next("*/15 * * * *", "2024-01-01T10:07:30Z")).toBe(
+      "2024-01-01T10:15:00.000Z"
+    );
+    expect(next("0 2 * * *", "2024-01-01T02:00:00Z")).toBe(
+      "2024-01-02T02:00:00.000Z"
+    );
+    expect(next("30 9 1,15 * *", "2024-01-15T10:00:00Z")).toBe(
+      "2024-02-01T09:30:00.000Z"
+    );
+    expect(next("0 0 29 FEB *", "2024-03-01T00:00:00Z")).toBe(
+      "2028-02-29T00:00:00.000Z"
+    );
+    expect(next("@yearly", "2024-06-01T00:00:00Z")).toBe(
+      "2025-01-01T00:00:00.000Z"
+    );
+  });
+
+  it("reads days of the week by number or name, with Sunday as 0 or 7", () => {
+    // 2024-01-06 is a Saturday
+    expect(next("0 8 * * MON-FRI", "2024-01-06T00:00:00Z")).toBe(
+      "2024-01-08T08:00:00.000Z"
+    );
+    expect(next("0 8 * * 7", "2024-01-06T00:00:00Z")).toBe(
+      "2024-01-07T08:00:00.000Z"
+    );
+  });
+
+  it("matches either restricted day field like cron", () => {
+    // The 13th, or any Friday
+    expect(next("0 0 13 * 5", "2024-01-06T00:00:00Z")).toBe(
+      "2024-01-12T00:00:00.000Z"
+    );
+    // Odd days of the month that are also Mondays, since */2 is no restriction
+    expect(next("0 0 */2 * 1", "2024-01-02T00:00:00Z")).toBe(
+      "2024-01-15T00:00:00.000Z"
+    );
+  });
+
+  it("gives up on expressions that never match", () => {
+    expect(
+      new CronExpression("0 0 30 2 *", { utc: true }).next(0)
+    ).toBeUndefined();
+  });
+
+  it.each([
+    ["* * * *", "expected 5 fields"],
+    ["60 * * * *", 'invalid minute "60"'],
+    ["* * * * FUN", 'invalid day of week "FUN"'],
+    ["*/0 * * * *", 'invalid step in minute "*/0"'],
+    ["5-1 * * * *", 'invalid range in minute "5-1"'],
+  ])("rejects %s", (source, message) => {
+    expect(() => new CronExpression(source)).toThrow(
+      `Invalid cron expression "${source}": ${message}`
+    );
+  });
+});
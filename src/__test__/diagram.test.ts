@@ -0,0 +1,119 @@
+import { FlowControl, Task, TaskGroup, toDot, toMermaid } from "../index";
+
+const buildFlow = () => {
+  const flowControl = new FlowControl();
+  const hardware = new TaskGroup("Provision Hardware");
+  const image = new TaskGroup("Create Image");
+  const makeTask = (id: string, nextTasks?: string[]) =>
+    new Task({
+      id,
+      execute: async () => {},
+      checkCondition: async () => true,
+      nextTasks,
+    });
+
+  image.addChild(makeTask('Download "Talos"', ["Setup Network"]));
+  hardware.addChild(image);
+  hardware.addChild(makeTask("Setup Network"));
+  flowControl.addGroup(hardware);
+  return flowControl;
+};
+
+describe("diagrams", () => {
+  it("exports a Mermaid flowchart with subgraphs and edges", () => {
+    expect(toMermaid(buildFlow())).toBe(
+      [
+        "flowchart TB",
+        '  subgraph group0["Provision Hardware"]',
+        '    subgraph group1["Create Image"]',
+        '      task0["Download #quot;Talos#quot;"]',
+        "    end",
+        '    task1["Setup Network"]',
+        "  end",
+        "  task0 --> task1",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("escapes the characters Mermaid labels cannot hold", () => {
+    const flowControl = new FlowControl();
+    const group = new TaskGroup("<Build> & Test");
+    group.addChild(
+      new Task({
+        id: "a -> b",
+        execute: async () => {},
+        checkCondition: async () => true,
+      })
+    );
+    flowControl.addGroup(group);
+
+    const diagram = toMermaid(flowControl);
+    expect(diagram).toContain('subgraph group0["#lt;Build#gt; #amp; Test"]');
+    expect(diagram).toContain('task0["a -#gt; b"]');
+  });
+
+  it("rejects tasks sharing an id across groups", () => {
+    const flowControl = new FlowControl();
+    ["first", "second"].forEach((id) => {
+      const group = new TaskGroup(id);
+      group.addChild(
+        new Task({
+          id: "deploy",
+          execute: async () => {},
+          checkCondition: async () => true,
+        })
+      );
+      flowControl.addGroup(group);
+    });
+
+    expect(() => toMermaid(flowControl)).toThrow("Duplicate task id deploy");
+    expect(() => toDot(flowControl)).toThrow("Duplicate task id deploy");
+  });
+
+  it("colors Mermaid nodes by state and adds durations", async () => {
+    const flowControl = buildFlow();
+    const state = flowControl.getSerializedState();
+    state["Provision Hardware"].children!["Setup Network"] = {
+      type: "task",
+      state: "failed",
+      time: 1500,
+    };
+
+    const diagram = toMermaid(flowControl, {
+      showState: true,
+      showDurations: true,
+      direction: "LR",
+      state,
+    });
+
+    expect(diagram).toContain("flowchart LR");
+    expect(diagram).toContain('task1["Setup Network<br/>1.5s"]');
+    expect(diagram).toContain("  classDef failed fill:#ffcdd2,stroke:#c62828");
+    expect(diagram).toContain("  class task1 failed");
+    expect(diagram).toContain("  class group0,group1,task0 not_started");
+  });
+
+  it("exports a DOT digraph with clusters and edges", () => {
+    expect(toDot(buildFlow(), { showState: true })).toBe(
+      [
+        "digraph flow {",
+        "  rankdir=TB;",
+        '  node [shape=box, style="rounded,filled", fillcolor="#ffffff"];',
+        "  subgraph cluster_group0 {",
+        '    label="Provision Hardware";',
+        '    style=filled; fillcolor="#ffffff"; color="#9e9e9e";',
+        "    subgraph cluster_group1 {",
+        '      label="Create Image";',
+        '      style=filled; fillcolor="#ffffff"; color="#9e9e9e";',
+        '      task0 [label="Download \\"Talos\\"", fillcolor="#ffffff", color="#9e9e9e"];',
+        "    }",
+        '    task1 [label="Setup Network", fillcolor="#ffffff", color="#9e9e9e"];',
+        "  }",
+        "  task0 -> task1;",
+        "}",
+        "",
+      ].join("\n")
+    );
+  });
+});
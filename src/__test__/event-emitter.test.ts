@@ -59,4 +59,141 @@ describe('EventEmitter', () => {
       expect(() => emitter.emit('nonExistentEvent')).not.toThrow();
     });
   });
+
+  describe('once method', () => {
+    test('should call the listener only once', () => {
+      const listener = jest.fn();
+      emitter.once('testEvent', listener);
+
+      emitter.emit('testEvent', 1);
+      emitter.emit('testEvent', 2);
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(1);
+    });
+
+    test('should be removable with off before it fires', () => {
+      const listener = jest.fn();
+      emitter.once('testEvent', listener);
+      emitter.off('testEvent', listener);
+
+      emitter.emit('testEvent');
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('off and removeAllListeners methods', () => {
+    test('should remove a single listener', () => {
+      const listener1 = jest.fn();
+      const listener2 = jest.fn();
+      emitter.on('testEvent', listener1);
+      emitter.on('testEvent', listener2);
+
+      emitter.off('testEvent', listener1);
+      emitter.emit('testEvent');
+
+      expect(listener1).not.toHaveBeenCalled();
+      expect(listener2).toHaveBeenCalled();
+      expect(emitter.listenerCount('testEvent')).toBe(1);
+    });
+
+    test('should remove the listeners of one event or of all events', () => {
+      emitter.on('event1', jest.fn());
+      emitter.on('event2', jest.fn());
+
+      emitter.removeAllListeners('event1');
+      expect(emitter.listenerCount('event1')).toBe(0);
+      expect(emitter.listenerCount('event2')).toBe(1);
+
+      emitter.removeAllListeners();
+      expect(emitter['events'].size).toBe(0);
+    });
+  });
+
+  describe('listener errors', () => {
+    test('should keep calling listeners after one throws and report the error', () => {
+      const error = new Error('listener failed');
+      const onError = jest.fn();
+      const listener = jest.fn();
+      emitter.on('error', onError);
+      emitter.on('testEvent', () => {
+        throw error;
+      });
+      emitter.on('testEvent', listener);
+
+      expect(() => emitter.emit('testEvent')).not.toThrow();
+      expect(listener).toHaveBeenCalled();
+      expect(onError).toHaveBeenCalledWith(error);
+    });
+
+    test('should report rejected asynchronous listeners', async () => {
+      const onError = jest.fn();
+      emitter.on('error', onError);
+      emitter.on('testEvent', async () => {
+        throw new Error('async failure');
+      });
+
+      emitter.emit('testEvent');
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'async failure' }));
+    });
+
+    test('should hand listener errors to onListenerError instead of the error event', () => {
+      const onListenerError = jest.fn();
+      const onError = jest.fn();
+      emitter = new EventEmitter({ onListenerError });
+      emitter.on('error', onError);
+      emitter.on('error', () => {
+        throw new Error('error listener failed');
+      });
+      emitter.on('testEvent', () => {
+        throw new Error('listener failed');
+      });
+
+      emitter.emit('testEvent');
+      emitter.emit('error', new Error('flow failed'));
+
+      expect(onListenerError.mock.calls).toEqual([
+        [new Error('listener failed'), 'testEvent'],
+        [new Error('error listener failed'), 'error'],
+      ]);
+      expect(onError).toHaveBeenCalledTimes(1);
+    });
+
+    test('should not let a throwing onListenerError break emit', () => {
+      const listener = jest.fn();
+      emitter = new EventEmitter({
+        onListenerError: () => {
+          throw new Error('handler failed');
+        },
+      });
+      emitter.on('testEvent', () => {
+        throw new Error('listener failed');
+      });
+      emitter.on('testEvent', listener);
+
+      expect(() => emitter.emit('testEvent')).not.toThrow();
+      expect(listener).toHaveBeenCalled();
+    });
+  });
+
+  describe('emitAsync method', () => {
+    test('should wait for asynchronous listeners', async () => {
+      const calls: string[] = [];
+      emitter.on('testEvent', async () => {
+        await Promise.resolve();
+        calls.push('async');
+      });
+      emitter.on('testEvent', () => {
+        calls.push('sync');
+      });
+
+      await emitter.emitAsync('testEvent');
+
+      expect(calls.sort()).toEqual(['async', 'sync']);
+    });
+  });
 });
+
@@ -0,0 +1,37 @@
+import { DependencyGraph } from "../graph";
+
+describe("DependencyGraph", () => {
+  let graph: DependencyGraph;
+
+  beforeEach(() => {
+    graph = new DependencyGraph();
+    ["a", "b", "c", "d"].forEach((id) => graph.addNode(id));
+  });
+
+  it("tracks successors and predecessors", () => {
+    graph.addEdge("a", "b");
+    graph.addEdge("a", "c");
+    graph.addEdge("c", "d");
+
+    expect(graph.successors("a")).toEqual(["b", "c"]);
+    expect(graph.predecessors("d")).toEqual(["c"]);
+    expect(graph.descendants("a").sort()).toEqual(["b", "c", "d"]);
+  });
+
+  it("throws when an edge references an unknown node", () => {
+    expect(() => graph.addEdge("a", "missing")).toThrow();
+  });
+
+  it("returns undefined when the graph is acyclic", () => {
+    graph.addEdge("a", "b");
+    graph.addEdge("b", "c");
+    expect(graph.findCycle()).toBeUndefined();
+  });
+
+  it("finds cycles", () => {
+    graph.addEdge("a", "b");
+    graph.addEdge("b", "c");
+    graph.addEdge("c", "b");
+    expect(graph.findCycle()).toEqual(["b", "c", "b"]);
+  });
+});
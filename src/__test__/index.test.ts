@@ -1,4 +1,17 @@
-import { Task, TaskGroup, FlowControl } from "../index";
+import {
+  BasicTracer,
+  InMemorySpanExporter,
+  Task,
+  TaskGroup,
+  FlowControl,
+  MapTaskGroup,
+  CancelledError,
+  TimeoutError,
+  FlowValidationError,
+  ExponentialBackoff,
+  StateStore,
+  TaskResult,
+} from "../index";
 
 jest.useFakeTimers();
 
@@ -150,5 +163,1881 @@ describe("Task Management System", () => {
       expect(task2.execute).toHaveBeenCalledTimes(1);
       expect(task2.checkCondition).toHaveBeenCalledTimes(1);
     });
+
+    it("rejects a second run while the flow is running", async () => {
+      const running = flowControl.run();
+
+      await expect(flowControl.run()).rejects.toThrow(
+        "Cannot run a flow that is already running"
+      );
+      await running;
+      expect(task1.execute).toHaveBeenCalledTimes(1);
+      expect(task2.execute).toHaveBeenCalledTimes(1);
+      await flowControl.run();
+      expect(task1.execute).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("parallel task groups", () => {
+    const deferred = () => {
+      let resolve: () => void = () => {};
+      const promise = new Promise<void>((res) => (resolve = res));
+      return { promise, resolve };
+    };
+
+    it("runs children concurrently up to maxConcurrency", async () => {
+      const flowControl = new FlowControl();
+      const group = new TaskGroup("group", { parallel: true, maxConcurrency: 2 });
+      const gates = [deferred(), deferred(), deferred()];
+      let active = 0;
+      let maxActive = 0;
+
+      gates.forEach((gate, index) => {
+        group.addChild(
+          new Task({
+            id: `task${index}`,
+            execute: async () => {
+              active++;
+              maxActive = Math.max(maxActive, active);
+              await gate.promise;
+              active--;
+            },
+            checkCondition: async () => true,
+          })
+        );
+      });
+      flowControl.addGroup(group);
+
+      const running = flowControl.run();
+      await jest.advanceTimersByTimeAsync(0);
+      expect(active).toBe(2);
+
+      gates.forEach((gate) => gate.resolve());
+      await running;
+
+      expect(maxActive).toBe(2);
+      group.children.forEach((task) => {
+        expect((task as Task).state).toBe("completed");
+      });
+    });
+
+    it("reports wall-clock time for the group", async () => {
+      const flowControl = new FlowControl();
+      const group = new TaskGroup("group", { parallel: true });
+      ["a", "b"].forEach((id) => {
+        group.addChild(
+          new Task({
+            id,
+            execute: () => new Promise((resolve) => setTimeout(resolve, 1000)),
+            checkCondition: async () => true,
+          })
+        );
+      });
+      flowControl.addGroup(group);
+
+      const running = flowControl.run();
+      await jest.advanceTimersByTimeAsync(1000);
+      await running;
+
+      const state = flowControl.getSerializedState();
+      expect(state.group.children!.a.time).toBe(1000);
+      expect(state.group.children!.b.time).toBe(1000);
+      expect(state.group.time).toBe(1000);
+    });
+
+    it("resolves a pending jump before starting any child", async () => {
+      const flowControl = new FlowControl();
+      const first = new TaskGroup("first");
+      const parallel = new TaskGroup("parallel", { parallel: true });
+      const makeTask = (id: string, result?: string) =>
+        new Task({
+          id,
+          execute: jest.fn(async () => result) as any,
+          checkCondition: async () => true,
+        });
+
+      first.addChild(makeTask("jumper", "target"));
+      const before = makeTask("before");
+      const target = makeTask("target");
+      const after = makeTask("after");
+      parallel.addChild(before);
+      parallel.addChild(target);
+      parallel.addChild(after);
+      flowControl.addGroup(first);
+      flowControl.addGroup(parallel);
+
+      await flowControl.run();
+
+      expect(before.state).toBe("skipped");
+      expect(target.state).toBe("completed");
+      expect(after.state).toBe("completed");
+    });
+
+    it("rejects an invalid maxConcurrency", () => {
+      expect(() => new TaskGroup("group", { maxConcurrency: 0 })).toThrow();
+    });
+  });
+
+  describe("branching", () => {
+    const makeTask = (id: string, next?: TaskResult["next"]) =>
+      new Task({
+        id,
+        execute: jest.fn(async () => (next ? { next } : undefined)),
+        checkCondition: async () => true,
+      });
+
+    // first: [a, nested: [b, c], d], second: [e], third: [f]
+    const buildFlow = (next: TaskResult["next"], from = "a") => {
+      const flowControl = new FlowControl();
+      const tasks: Record<string, Task> = {};
+      ["a", "b", "c", "d", "e", "f"].forEach((id) => {
+        tasks[id] = makeTask(id, id === from ? next : undefined);
+      });
+      const first = new TaskGroup("first");
+      const nested = new TaskGroup("nested");
+      const second = new TaskGroup("second");
+      const third = new TaskGroup("third");
+      first.addChild(tasks.a);
+      nested.addChild(tasks.b);
+      nested.addChild(tasks.c);
+      first.addChild(nested);
+      first.addChild(tasks.d);
+      second.addChild(tasks.e);
+      third.addChild(tasks.f);
+      [first, second, third].forEach((group) => flowControl.addGroup(group));
+      return { flowControl, tasks };
+    };
+
+    const states = (tasks: Record<string, Task>) =>
+      Object.values(tasks).map((task) => task.state);
+
+    it("jumps to a task group anywhere later in the flow", async () => {
+      const { flowControl, tasks } = buildFlow("second");
+
+      await flowControl.run();
+
+      expect(states(tasks)).toEqual([
+        "completed",
+        "skipped",
+        "skipped",
+        "skipped",
+        "completed",
+        "completed",
+      ]);
+      expect(tasks.d.skipReason).toBe("Skipped by a jump from a to second");
+      expect(flowControl.getSerializedState().first.children!.nested.state).toBe(
+        "skipped"
+      );
+    });
+
+    it("goes to a task out of a nested group", async () => {
+      const { flowControl, tasks } = buildFlow("f", "b");
+
+      await flowControl.run();
+
+      expect(states(tasks)).toEqual([
+        "completed",
+        "completed",
+        "skipped",
+        "skipped",
+        "skipped",
+        "completed",
+      ]);
+    });
+
+    it("skips to a task or group within the same group", async () => {
+      const { flowControl, tasks } = buildFlow({
+        target: "d",
+        scope: "group",
+      });
+
+      await flowControl.run();
+
+      expect(states(tasks)).toEqual([
+        "completed",
+        "skipped",
+        "skipped",
+        "completed",
+        "completed",
+        "completed",
+      ]);
+    });
+
+    it("fails the task when a group scoped jump leaves the group", async () => {
+      const { flowControl, tasks } = buildFlow(
+        { target: "d", scope: "group" },
+        "b"
+      );
+
+      await expect(flowControl.run()).rejects.toThrow(
+        "Task b can only skip to a task or group after it in nested, not to d"
+      );
+      expect(tasks.b.state).toBe("failed");
+      expect(tasks.b.attempts[0].state).toBe("failed");
+      expect(tasks.c.state).toBe("not_started");
+    });
+
+    it("fails the task when the target does not exist", async () => {
+      const { flowControl, tasks } = buildFlow("missing");
+      const onFailed = jest.fn();
+      flowControl.on("taskFailed", onFailed);
+
+      await expect(flowControl.run()).rejects.toThrow(
+        "Task a jumped to unknown task or group missing"
+      );
+      expect(onFailed).toHaveBeenCalledWith(tasks.a, expect.any(Error));
+      expect(tasks.b.state).toBe("not_started");
+    });
+
+    it("refuses to jump backwards", async () => {
+      const { flowControl } = buildFlow("first", "e");
+
+      await expect(flowControl.run()).rejects.toThrow(
+        "Task e cannot jump back to first, jumps only go forward"
+      );
+    });
+  });
+
+  describe("failure policies", () => {
+    const makeTask = (id: string, fail = false) =>
+      new Task({
+        id,
+        execute: jest.fn(async () => {
+          if (fail) {
+            throw new Error(`${id} failed`);
+          }
+        }) as any,
+        checkCondition: async () => true,
+      });
+
+    it("stops a group at the first failure by default", async () => {
+      const flowControl = new FlowControl();
+      const group = new TaskGroup("group");
+      const broken = makeTask("broken", true);
+      const next = makeTask("next");
+      group.addChild(broken);
+      group.addChild(next);
+      flowControl.addGroup(group);
+
+      await expect(flowControl.run()).rejects.toThrow("broken failed");
+
+      expect(next.execute).not.toHaveBeenCalled();
+      expect(flowControl.getSerializedState().group.state).toBe("failed");
+    });
+
+    it("keeps running the group with the continue policy", async () => {
+      const flowControl = new FlowControl();
+      const group = new TaskGroup("group", { failurePolicy: "continue" });
+      const broken = makeTask("broken", true);
+      const next = makeTask("next");
+      group.addChild(broken);
+      group.addChild(next);
+      flowControl.addGroup(group);
+
+      const result = await flowControl.run();
+
+      expect(next.state).toBe("completed");
+      expect(result.status).toBe("partially_failed");
+      expect(result.errors).toEqual([
+        { taskId: "broken", error: new Error("broken failed") },
+      ]);
+      expect(flowControl.getSerializedState().group.state).toBe(
+        "partially_failed"
+      );
+    });
+
+    it("tolerates up to maxFailures failing children", async () => {
+      const flowControl = new FlowControl();
+      const group = new TaskGroup("group", {
+        parallel: true,
+        maxConcurrency: 1,
+        failurePolicy: { maxFailures: 1 },
+      });
+      const first = makeTask("first", true);
+      const second = makeTask("second", true);
+      const third = makeTask("third");
+      [first, second, third].forEach((task) => group.addChild(task));
+      flowControl.addGroup(group);
+
+      await expect(flowControl.run()).rejects.toThrow("second failed");
+
+      expect(third.execute).not.toHaveBeenCalled();
+      expect(flowControl.getFailures().map((failure) => failure.taskId)).toEqual(
+        ["first", "second"]
+      );
+      expect(flowControl.getSerializedState().group.state).toBe("failed");
+    });
+
+    it("applies the flow policy to groups without their own", async () => {
+      const flowControl = new FlowControl({ failurePolicy: "continue" });
+      const first = new TaskGroup("first");
+      const nested = new TaskGroup("nested", { failurePolicy: "fail-fast" });
+      const second = new TaskGroup("second");
+      nested.addChild(makeTask("broken", true));
+      nested.addChild(makeTask("skipped"));
+      first.addChild(nested);
+      first.addChild(makeTask("sibling"));
+      second.addChild(makeTask("last"));
+      flowControl.addGroup(first);
+      flowControl.addGroup(second);
+
+      const result = await flowControl.run();
+
+      const state = flowControl.getSerializedState();
+      expect(result.status).toBe("partially_failed");
+      expect(state.first.children!.nested.state).toBe("failed");
+      expect(state.first.children!.nested.children!.skipped.state).toBe(
+        "not_started"
+      );
+      expect(state.first.children!.sibling.state).toBe("completed");
+      expect(state.first.state).toBe("partially_failed");
+      expect(state.second.state).toBe("completed");
+    });
+
+    it("stops dispatching graph tasks once the flow policy is breached", async () => {
+      const flowControl = new FlowControl({
+        scheduler: "graph",
+        maxConcurrency: 1,
+      });
+      const group = new TaskGroup("group");
+      const broken = makeTask("broken", true);
+      const unrelated = makeTask("unrelated");
+      group.addChild(broken);
+      group.addChild(unrelated);
+      flowControl.addGroup(group);
+
+      await expect(flowControl.run()).rejects.toThrow("broken failed");
+
+      expect(unrelated.execute).not.toHaveBeenCalled();
+    });
+
+    it("rejects a negative maxFailures", () => {
+      expect(
+        () => new TaskGroup("group", { failurePolicy: { maxFailures: -1 } })
+      ).toThrow();
+    });
+  });
+
+  describe("rollback", () => {
+    const buildFlow = (options: { failCompensation?: boolean } = {}) => {
+      const flowControl = new FlowControl({ rollback: true });
+      const group = new TaskGroup("group");
+      const compensated: string[] = [];
+      const makeTask = (id: string, fail = false) =>
+        new Task({
+          id,
+          execute: jest.fn(async () => {
+            if (fail) {
+              throw new Error(`${id} failed`);
+            }
+            return { output: `${id} output` };
+          }) as any,
+          checkCondition: async () => true,
+          compensate: jest.fn(async ({ output }) => {
+            if (options.failCompensation && id === "network") {
+              throw new Error("teardown failed");
+            }
+            compensated.push(output as string);
+          }),
+        });
+
+      const tasks = {
+        hardware: makeTask("hardware"),
+        network: makeTask("network"),
+        install: makeTask("install", true),
+      };
+      Object.values(tasks).forEach((task) => group.addChild(task));
+      flowControl.addGroup(group);
+      return { flowControl, tasks, compensated };
+    };
+
+    it("compensates completed tasks in reverse order when a run fails", async () => {
+      const { flowControl, tasks, compensated } = buildFlow();
+      const onCompensated = jest.fn();
+      const onComplete = jest.fn();
+      flowControl.on("taskCompensated", onCompensated);
+      flowControl.on("rollbackComplete", onComplete);
+
+      await expect(flowControl.run()).rejects.toThrow("install failed");
+
+      expect(compensated).toEqual(["network output", "hardware output"]);
+      expect(tasks.install.compensate).not.toHaveBeenCalled();
+      expect(tasks.hardware.state).toBe("compensated");
+      expect(tasks.install.state).toBe("failed");
+      expect(onCompensated).toHaveBeenCalledTimes(2);
+      expect(onComplete).toHaveBeenCalledWith({
+        status: "compensated",
+        errors: [],
+      });
+      expect(flowControl.getSerializedState().group.state).toBe("failed");
+    });
+
+    it("keeps compensating after a compensation fails", async () => {
+      const { flowControl, tasks, compensated } = buildFlow({
+        failCompensation: true,
+      });
+      const onFailed = jest.fn();
+      flowControl.on("compensationFailed", onFailed);
+
+      await expect(flowControl.run()).rejects.toThrow("install failed");
+
+      expect(compensated).toEqual(["hardware output"]);
+      expect(tasks.network.state).toBe("compensation_failed");
+      expect(onFailed).toHaveBeenCalledWith(
+        tasks.network,
+        new Error("teardown failed")
+      );
+      expect(flowControl.getSerializedState().group.state).toBe(
+        "compensation_failed"
+      );
+    });
+
+    it("rolls back a finished run on demand", async () => {
+      const flowControl = new FlowControl();
+      const group = new TaskGroup("group");
+      const task = new Task({
+        id: "task",
+        execute: jest.fn(async () => {}),
+        checkCondition: async () => true,
+        compensate: jest.fn(async () => {}),
+      });
+      group.addChild(task);
+      flowControl.addGroup(group);
+
+      await flowControl.run();
+      const result = await flowControl.rollback();
+
+      expect(result).toEqual({ status: "compensated", errors: [] });
+      expect(task.compensate).toHaveBeenCalledTimes(1);
+      expect(flowControl.getSerializedState().group.state).toBe("compensated");
+    });
+  });
+
+  describe("graph scheduler", () => {
+    const order: string[] = [];
+    const makeTask = (
+      id: string,
+      options: { nextTasks?: string[]; dependsOn?: string[]; fail?: boolean } = {}
+    ) =>
+      new Task({
+        id,
+        execute: jest.fn(async () => {
+          order.push(id);
+          if (options.fail) {
+            throw new Error(`${id} failed`);
+          }
+        }) as any,
+        checkCondition: async () => true,
+        nextTasks: options.nextTasks,
+        dependsOn: options.dependsOn,
+      });
+
+    beforeEach(() => {
+      order.length = 0;
+    });
+
+    it("orders tasks by their dependencies across groups", async () => {
+      const flowControl = new FlowControl({ scheduler: "graph" });
+      const first = new TaskGroup("first");
+      const second = new TaskGroup("second");
+      first.addChild(makeTask("deploy", { dependsOn: ["build"] }));
+      second.addChild(makeTask("build", { nextTasks: ["test"] }));
+      second.addChild(makeTask("test", { nextTasks: ["deploy"] }));
+      flowControl.addGroup(first);
+      flowControl.addGroup(second);
+
+      await flowControl.run();
+
+      expect(order).toEqual(["build", "test", "deploy"]);
+    });
+
+    it("skips descendants of failed tasks and keeps running the rest", async () => {
+      const flowControl = new FlowControl({ scheduler: "graph" });
+      const group = new TaskGroup("group");
+      const broken = makeTask("broken", { nextTasks: ["child"], fail: true });
+      const child = makeTask("child", { nextTasks: ["grandchild"] });
+      const grandchild = makeTask("grandchild");
+      const unrelated = makeTask("unrelated");
+      [broken, child, grandchild, unrelated].forEach((task) =>
+        group.addChild(task)
+      );
+      flowControl.addGroup(group);
+
+      const running = expect(flowControl.run()).rejects.toThrow("broken failed");
+      await jest.advanceTimersByTimeAsync(1000);
+      await running;
+
+      expect(broken.state).toBe("failed");
+      expect(child.state).toBe("skipped");
+      expect(grandchild.state).toBe("skipped");
+      expect(unrelated.state).toBe("completed");
+    });
+
+    it("rejects cycles before running anything", async () => {
+      const flowControl = new FlowControl({ scheduler: "graph" });
+      const group = new TaskGroup("group");
+      group.addChild(makeTask("a", { nextTasks: ["b"] }));
+      group.addChild(makeTask("b", { nextTasks: ["a"] }));
+      flowControl.addGroup(group);
+
+      await expect(flowControl.run()).rejects.toThrow(
+        "Dependency cycle detected: a -> b -> a"
+      );
+      expect(order).toEqual([]);
+    });
+
+    it("rejects references to unknown tasks", async () => {
+      const flowControl = new FlowControl({ scheduler: "graph" });
+      const group = new TaskGroup("group");
+      group.addChild(makeTask("a", { dependsOn: ["missing"] }));
+      flowControl.addGroup(group);
+
+      await expect(flowControl.run()).rejects.toThrow(
+        "Task a references unknown task missing"
+      );
+    });
+  });
+
+  describe("cancellation", () => {
+    let flowControl: FlowControl;
+    let taskGroup: TaskGroup;
+    let receivedSignal: AbortSignal | undefined;
+    let hanging: Task;
+    let later: Task;
+
+    beforeEach(() => {
+      receivedSignal = undefined;
+      flowControl = new FlowControl();
+      taskGroup = new TaskGroup("group");
+      hanging = new Task({
+        id: "hanging",
+        execute: ({ signal }) => {
+          receivedSignal = signal;
+          return new Promise(() => {});
+        },
+        checkCondition: async () => true,
+      });
+      later = new Task({
+        id: "later",
+        execute: jest.fn(),
+        checkCondition: async () => true,
+      });
+      taskGroup.addChild(hanging);
+      taskGroup.addChild(later);
+      flowControl.addGroup(taskGroup);
+    });
+
+    it("cancels a running flow with flow.cancel()", async () => {
+      const cancelled = jest.fn();
+      flowControl.on("cancelled", cancelled);
+
+      const running = flowControl.run();
+      await jest.advanceTimersByTimeAsync(0);
+      flowControl.cancel();
+
+      await expect(running).rejects.toBeInstanceOf(CancelledError);
+      expect(receivedSignal!.aborted).toBe(true);
+      expect(hanging.state).toBe("cancelled");
+      expect(later.state).toBe("cancelled");
+      expect(later.execute).not.toHaveBeenCalled();
+      expect(cancelled).toHaveBeenCalledWith(expect.any(CancelledError));
+    });
+
+    it("cancels a running flow through an external signal", async () => {
+      const controller = new AbortController();
+      const running = flowControl.run({ signal: controller.signal });
+      await jest.advanceTimersByTimeAsync(0);
+      controller.abort(new Error("shutting down"));
+
+      await expect(running).rejects.toThrow("shutting down");
+      expect(hanging.state).toBe("cancelled");
+    });
+
+    it("interrupts the wait between retries", async () => {
+      const failing = new Task({
+        id: "failing",
+        execute: jest.fn(async () => {
+          throw new Error("failure");
+        }),
+        checkCondition: async () => true,
+        retries: 3,
+        waitTime: 60000,
+      });
+      const retryGroup = new TaskGroup("retries");
+      retryGroup.addChild(failing);
+      const retryFlow = new FlowControl();
+      retryFlow.addGroup(retryGroup);
+
+      const running = retryFlow.run();
+      await jest.advanceTimersByTimeAsync(0);
+      retryFlow.cancel();
+
+      await expect(running).rejects.toBeInstanceOf(CancelledError);
+      expect(failing.execute).toHaveBeenCalledTimes(1);
+      expect(failing.state).toBe("cancelled");
+    });
+  });
+
+  describe("timeouts", () => {
+    const hangingTask = (options: Partial<ConstructorParameters<typeof Task>[0]> = {}) =>
+      new Task({
+        id: "hanging",
+        execute: jest.fn(() => new Promise<void>(() => {})),
+        checkCondition: async () => true,
+        ...options,
+      });
+
+    const flowWith = (...tasks: Task[]) => {
+      const flowControl = new FlowControl();
+      const group = new TaskGroup("group");
+      tasks.forEach((task) => group.addChild(task));
+      flowControl.addGroup(group);
+      return flowControl;
+    };
+
+    it("times out each attempt and retries it", async () => {
+      const task = hangingTask({ timeout: 100, retries: 1, waitTime: 50 });
+      const flowControl = flowWith(task);
+
+      const running = expect(flowControl.run()).rejects.toBeInstanceOf(
+        TimeoutError
+      );
+      await jest.advanceTimersByTimeAsync(100);
+      expect(task.execute).toHaveBeenCalledTimes(1);
+      await jest.advanceTimersByTimeAsync(200);
+      await running;
+
+      expect(task.execute).toHaveBeenCalledTimes(2);
+      expect(task.state).toBe("timed_out");
+      expect(flowControl.getSerializedState().group.state).toBe("timed_out");
+    });
+
+    it("aborts the attempt signal when it times out", async () => {
+      let receivedSignal: AbortSignal | undefined;
+      const task = hangingTask({
+        timeout: 100,
+        execute: ({ signal }) => {
+          receivedSignal = signal;
+          return new Promise(() => {});
+        },
+      });
+
+      const running = expect(task.runTask()).rejects.toBeInstanceOf(
+        TimeoutError
+      );
+      await jest.advanceTimersByTimeAsync(100);
+      await running;
+
+      expect(receivedSignal!.reason).toBeInstanceOf(TimeoutError);
+    });
+
+    it("stops the flow once its deadline has passed", async () => {
+      const hanging = hangingTask();
+      const later = new Task({
+        id: "later",
+        execute: jest.fn(),
+        checkCondition: async () => true,
+      });
+      const flowControl = flowWith(hanging, later);
+      const timedOut = jest.fn();
+      flowControl.on("timedOut", timedOut);
+
+      const running = expect(
+        flowControl.run({ deadline: 1000 })
+      ).rejects.toBeInstanceOf(TimeoutError);
+      await jest.advanceTimersByTimeAsync(1000);
+      await running;
+
+      expect(hanging.state).toBe("timed_out");
+      expect(later.state).toBe("cancelled");
+      expect(timedOut).toHaveBeenCalledWith(expect.any(TimeoutError));
+    });
+
+    it("emits a warning when a task passes its soft timeout", async () => {
+      const task = new Task({
+        id: "slow",
+        execute: () => new Promise((resolve) => setTimeout(resolve, 300)),
+        checkCondition: async () => true,
+        softTimeout: 200,
+      });
+      const flowControl = flowWith(task);
+      const warning = jest.fn();
+      flowControl.on("taskWarning", warning);
+
+      const running = flowControl.run();
+      await jest.advanceTimersByTimeAsync(300);
+      await running;
+
+      expect(warning).toHaveBeenCalledTimes(1);
+      expect(warning).toHaveBeenCalledWith(task, expect.stringContaining("200ms"));
+      expect(task.state).toBe("completed");
+    });
+  });
+
+  describe("retries", () => {
+    const failingTask = (options: Partial<ConstructorParameters<typeof Task>[0]> = {}) =>
+      new Task({
+        id: "failing",
+        execute: jest.fn(async () => {
+          throw new Error("failure");
+        }),
+        checkCondition: async () => true,
+        ...options,
+      });
+
+    it("retries according to the retry policy and records every attempt", async () => {
+      const task = failingTask({
+        retryPolicy: new ExponentialBackoff({ retries: 2, initialDelay: 100 }),
+      });
+      const flowControl = new FlowControl();
+      const group = new TaskGroup("group");
+      group.addChild(task);
+      flowControl.addGroup(group);
+      const onRetry = jest.fn();
+      flowControl.on("taskRetry", onRetry);
+
+      const running = expect(flowControl.run()).rejects.toThrow("failure");
+      await jest.advanceTimersByTimeAsync(300);
+      await running;
+
+      expect(task.execute).toHaveBeenCalledTimes(3);
+      expect(onRetry).toHaveBeenNthCalledWith(1, task, {
+        attempt: 1,
+        error: expect.any(Error),
+        delay: 100,
+      });
+      expect(onRetry).toHaveBeenNthCalledWith(2, task, {
+        attempt: 2,
+        error: expect.any(Error),
+        delay: 200,
+      });
+      expect(task.attempts.map((attempt) => attempt.state)).toEqual([
+        "failed",
+        "failed",
+        "failed",
+      ]);
+      expect(task.attempts.map((attempt) => attempt.delay)).toEqual([
+        100,
+        200,
+        undefined,
+      ]);
+    });
+
+    it("does not wait after the final attempt", async () => {
+      const task = failingTask({ waitTime: 60000 });
+      await expect(task.run()).rejects.toThrow("failure");
+      expect(task.execute).toHaveBeenCalledTimes(1);
+    });
+
+    it("stops retrying when shouldRetry returns false", async () => {
+      const shouldRetry = jest.fn(() => false);
+      const task = failingTask({ retries: 3, shouldRetry });
+
+      await expect(task.run()).rejects.toThrow("failure");
+
+      expect(task.execute).toHaveBeenCalledTimes(1);
+      expect(shouldRetry).toHaveBeenCalledWith(expect.any(Error), 1);
+    });
+
+    it("does not retry programming errors by default", async () => {
+      const task = failingTask({
+        retries: 3,
+        execute: jest.fn(async () => {
+          throw new TypeError("oops");
+        }),
+      });
+
+      await expect(task.run()).rejects.toThrow("oops");
+      expect(task.execute).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("pause and resume", () => {
+    let flowControl: FlowControl;
+    let first: Task;
+    let second: Task;
+    let finishFirst: () => void;
+
+    beforeEach(() => {
+      flowControl = new FlowControl();
+      const group = new TaskGroup("group");
+      first = new Task({
+        id: "first",
+        execute: () => new Promise<void>((resolve) => (finishFirst = resolve)),
+        checkCondition: async () => true,
+      });
+      second = new Task({
+        id: "second",
+        execute: jest.fn(),
+        checkCondition: async () => true,
+      });
+      group.addChild(first);
+      group.addChild(second);
+      flowControl.addGroup(group);
+    });
+
+    it("lets the running task finish and holds the next one until resumed", async () => {
+      const paused = jest.fn();
+      const resumed = jest.fn();
+      flowControl.on("paused", paused);
+      flowControl.on("resumed", resumed);
+
+      const running = flowControl.run();
+      await jest.advanceTimersByTimeAsync(0);
+      flowControl.pause();
+      expect(paused).toHaveBeenCalledTimes(1);
+
+      finishFirst();
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(first.state).toBe("completed");
+      expect(second.execute).not.toHaveBeenCalled();
+      expect(flowControl.isPaused()).toBe(true);
+      expect(flowControl.getSerializedState().group.state).toBe("paused");
+
+      flowControl.resume();
+      await running;
+
+      expect(resumed).toHaveBeenCalledTimes(1);
+      expect(second.state).toBe("completed");
+      expect(flowControl.getSerializedState().group.state).toBe("completed");
+    });
+
+    it("can be cancelled while paused", async () => {
+      flowControl.pause();
+      const running = flowControl.run();
+      await jest.advanceTimersByTimeAsync(0);
+      flowControl.cancel();
+
+      await expect(running).rejects.toBeInstanceOf(CancelledError);
+      expect(first.state).toBe("cancelled");
+      expect(second.state).toBe("cancelled");
+      expect(flowControl["resumeCallbacks"]).toHaveLength(0); // Accessing private property for testing
+    });
+  });
+
+  describe("restoreState and resume", () => {
+    const buildFlow = (options = {}) => {
+      const flowControl = new FlowControl(options);
+      const provision = new TaskGroup("provision");
+      const setup = new TaskGroup("setup");
+      const makeTask = (id: string, dependsOn?: string[]) =>
+        new Task({
+          id,
+          execute: jest.fn(),
+          checkCondition: async () => true,
+          dependsOn,
+        });
+      const tasks = {
+        hardware: makeTask("hardware"),
+        network: makeTask("network", ["hardware"]),
+        install: makeTask("install", ["network"]),
+      };
+      provision.addChild(tasks.hardware);
+      provision.addChild(tasks.network);
+      setup.addChild(tasks.install);
+      flowControl.addGroup(provision);
+      flowControl.addGroup(setup);
+      return { flowControl, tasks };
+    };
+
+    const snapshot = {
+      provision: {
+        type: "task-group" as const,
+        state: "in_progress" as const,
+        time: 150,
+        children: {
+          hardware: { type: "task" as const, state: "completed" as const, time: 100 },
+          network: { type: "task" as const, state: "in_progress" as const, time: 0 },
+        },
+      },
+      setup: {
+        type: "task-group" as const,
+        state: "not_started" as const,
+        time: 0,
+        children: {
+          install: { type: "task" as const, state: "not_started" as const, time: 0 },
+        },
+      },
+    };
+
+    it("only executes the tasks that did not complete", async () => {
+      const { flowControl, tasks } = buildFlow();
+      flowControl.restoreState(snapshot);
+
+      expect(tasks.hardware.state).toBe("completed");
+      expect(tasks.hardware.time).toBe(100);
+      expect(tasks.network.state).toBe("not_started");
+
+      await flowControl.run({ resume: true });
+
+      expect(tasks.hardware.execute).not.toHaveBeenCalled();
+      expect(tasks.network.execute).toHaveBeenCalledTimes(1);
+      expect(tasks.install.execute).toHaveBeenCalledTimes(1);
+      expect(flowControl.getSerializedState().provision.state).toBe("completed");
+    });
+
+    it("resumes with the graph scheduler", async () => {
+      const { flowControl, tasks } = buildFlow({ scheduler: "graph" });
+      flowControl.restoreState(snapshot);
+
+      await flowControl.run({ resume: true });
+
+      expect(tasks.hardware.execute).not.toHaveBeenCalled();
+      expect(tasks.network.execute).toHaveBeenCalledTimes(1);
+      expect(tasks.install.execute).toHaveBeenCalledTimes(1);
+    });
+
+    it("can assume in-progress tasks completed", () => {
+      const { flowControl, tasks } = buildFlow();
+      flowControl.restoreState(snapshot, { inProgress: "assume_completed" });
+      expect(tasks.network.state).toBe("completed");
+    });
+
+    it("refuses to restore in-progress tasks with the error policy", () => {
+      const { flowControl, tasks } = buildFlow();
+      expect(() =>
+        flowControl.restoreState(snapshot, { inProgress: "error" })
+      ).toThrow("provision/network");
+      expect(tasks.hardware.state).toBe("not_started");
+    });
+
+    it("runs everything again without resume", async () => {
+      const { flowControl, tasks } = buildFlow();
+      flowControl.restoreState(snapshot);
+
+      await flowControl.run();
+
+      expect(tasks.hardware.execute).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("serialized state", () => {
+    const buildFlow = () => {
+      const flowControl = new FlowControl({ failurePolicy: "continue" });
+      const group = new TaskGroup("group", { failurePolicy: "continue" });
+      let calls = 0;
+      const tasks = {
+        flaky: new Task({
+          id: "flaky",
+          execute: async () => {
+            if (calls++ === 0) {
+              const error = new Error("first attempt fails");
+              error.name = "NetworkError";
+              throw error;
+            }
+            return { next: "last", output: { hosts: 3 } };
+          },
+          checkCondition: async () => true,
+          retries: 1,
+          waitTime: 100,
+        }),
+        jumped: new Task({
+          id: "jumped",
+          execute: jest.fn(),
+          checkCondition: async () => true,
+        }),
+        last: new Task({
+          id: "last",
+          execute: async () => {
+            throw new Error("broken");
+          },
+          checkCondition: async () => true,
+        }),
+      };
+      Object.values(tasks).forEach((task) => group.addChild(task));
+      flowControl.addGroup(group);
+      return { flowControl, tasks };
+    };
+
+    it("records timestamps, attempts with their errors, outputs and skip reasons", async () => {
+      const { flowControl } = buildFlow();
+      const startTime = Date.now();
+
+      const running = flowControl.run();
+      await jest.advanceTimersByTimeAsync(100);
+      await running;
+
+      const { group } = flowControl.getSerializedState();
+      expect(group.state).toBe("partially_failed");
+      expect(group.startTime).toBe(startTime);
+      expect(group.endTime).toBe(startTime + 100);
+
+      const { flaky, jumped, last } = group.children!;
+      expect(flaky).toMatchObject({
+        state: "completed",
+        startTime,
+        endTime: startTime + 100,
+        attemptCount: 2,
+        output: { hosts: 3 },
+      });
+      expect(flaky.attempts![0]).toMatchObject({
+        attempt: 1,
+        state: "failed",
+        delay: 100,
+        error: { name: "NetworkError", message: "first attempt fails" },
+      });
+      expect(flaky.attempts![0].error!.stack).toContain("first attempt fails");
+      expect(jumped).toMatchObject({
+        state: "skipped",
+        attemptCount: 0,
+        skipReason: "Skipped by a jump from flaky to last",
+      });
+      expect(last.state).toBe("failed");
+      expect(last.attempts![0].error!.message).toBe("broken");
+    });
+
+    it("survives a round trip through JSON and restoreState", async () => {
+      const source = buildFlow();
+      const running = source.flowControl.run();
+      await jest.advanceTimersByTimeAsync(100);
+      await running;
+      const snapshot = JSON.parse(
+        JSON.stringify(source.flowControl.getSerializedState())
+      );
+
+      const { flowControl, tasks } = buildFlow();
+      flowControl.restoreState(snapshot);
+
+      expect(tasks.flaky.output).toEqual({ hosts: 3 });
+      expect(tasks.flaky.attempts[0].error).toBeInstanceOf(Error);
+      expect(tasks.jumped.skipReason).toBe(
+        "Skipped by a jump from flaky to last"
+      );
+      expect(flowControl.getSerializedState()).toEqual(snapshot);
+    });
+  });
+
+  describe("map task groups", () => {
+    const buildFlow = (items: () => Promise<unknown[]>) => {
+      const flowControl = new FlowControl();
+      const processed: unknown[] = [];
+      let running = 0;
+      let maxRunning = 0;
+      const group = new TaskGroup("group");
+      group.addChild(
+        new Task({
+          id: "list",
+          execute: async () => ({ output: await items() }),
+          checkCondition: async () => true,
+        })
+      );
+      const map = new MapTaskGroup<{ name: string }>("process", {
+        items: ({ outputs }) => outputs.get("list") as { name: string }[],
+        itemKey: (item) => item.name,
+        createTask: (item, id) =>
+          new Task({
+            id,
+            execute: async () => {
+              running++;
+              maxRunning = Math.max(maxRunning, running);
+              await new Promise((resolve) => setTimeout(resolve, 10));
+              running--;
+              processed.push(item.name);
+              return { output: item.name.toUpperCase() };
+            },
+            checkCondition: async () => true,
+          }),
+        maxConcurrency: 2,
+      });
+      flowControl.addGroup(group);
+      flowControl.addGroup(map);
+      return { flowControl, map, processed, maxRunning: () => maxRunning };
+    };
+
+    it("generates a task for every item computed at run time", async () => {
+      const { flowControl, map, processed, maxRunning } = buildFlow(
+        async () => [{ name: "a" }, { name: "b" }, { name: "c" }]
+      );
+      const expanded = jest.fn();
+      flowControl.on("taskGroupExpanded", expanded);
+
+      const running = flowControl.run();
+      await jest.advanceTimersByTimeAsync(20);
+      await running;
+
+      expect(Array.from(map.children.keys())).toEqual([
+        "process[a]",
+        "process[b]",
+        "process[c]",
+      ]);
+      expect(expanded).toHaveBeenCalledWith(map, expect.any(Array));
+      expect(processed).toEqual(["a", "b", "c"]);
+      expect(maxRunning()).toBe(2);
+      expect(flowControl.getOutputs().get("process[b]")).toBe("B");
+    });
+
+    it("shows every item in the serialized state and recreates the tasks on restore", async () => {
+      const source = buildFlow(async () => [{ name: "a" }, { name: "b" }]);
+      const running = source.flowControl.run();
+      await jest.advanceTimersByTimeAsync(10);
+      await running;
+
+      const snapshot = JSON.parse(
+        JSON.stringify(source.flowControl.getSerializedState())
+      );
+      expect(snapshot.process.state).toBe("completed");
+      expect(snapshot.process.children["process[a]"]).toMatchObject({
+        type: "task",
+        state: "completed",
+        item: { name: "a" },
+        output: "A",
+      });
+
+      const items = jest.fn(async () => [{ name: "c" }]);
+      const { flowControl, map, processed } = buildFlow(items);
+      flowControl.restoreState(snapshot);
+      expect(map.getItem("process[b]")).toEqual({ name: "b" });
+      expect(flowControl.getSerializedState()).toEqual(snapshot);
+
+      await flowControl.run({ resume: true });
+      expect(items).not.toHaveBeenCalled();
+      expect(processed).toEqual([]);
+    });
+
+    it("fails the group when the items are not an array", async () => {
+      const { flowControl, map } = buildFlow(async () => "a, b" as any);
+
+      await expect(flowControl.run()).rejects.toThrow(
+        "The items of map task group process are not an array"
+      );
+
+      expect(map.expanded).toBe(false);
+      expect(flowControl.getSerializedState().process.state).toBe("failed");
+    });
+
+    it("is not supported by the graph scheduler", async () => {
+      const flowControl = new FlowControl({ scheduler: "graph" });
+      flowControl.addGroup(
+        new MapTaskGroup("process", {
+          items: () => [],
+          createTask: (item, id) =>
+            new Task({ id, execute: jest.fn(), checkCondition: jest.fn() }),
+        })
+      );
+
+      await expect(flowControl.run()).rejects.toThrow(
+        "Map task group process needs the groups scheduler"
+      );
+    });
+  });
+
+  describe("live changes", () => {
+    const createTask = (id: string, order: string[], execute?: () => void) =>
+      new Task({
+        id,
+        execute: async () => {
+          order.push(id);
+          execute?.();
+        },
+        checkCondition: async () => true,
+      });
+
+    it("runs tasks added to the running group and to a later group", async () => {
+      const flowControl = new FlowControl();
+      const order: string[] = [];
+      const first = new TaskGroup("first");
+      const second = new TaskGroup("second");
+      first.addChild(
+        createTask("a", order, () => {
+          flowControl.addChild("first", createTask("follow-up", order));
+          flowControl.addChild("second", createTask("inserted", order), {
+            before: "c",
+          });
+        })
+      );
+      first.addChild(createTask("b", order));
+      second.addChild(createTask("c", order));
+      flowControl.addGroup(first);
+      flowControl.addGroup(second);
+      const added = jest.fn();
+      flowControl.on("childAdded", added);
+
+      await flowControl.run();
+
+      expect(order).toEqual(["a", "b", "follow-up", "inserted", "c"]);
+      expect(added).toHaveBeenCalledWith(second, expect.any(Task));
+      expect(
+        Object.keys(flowControl.getSerializedState().second.children!)
+      ).toEqual(["inserted", "c"]);
+      expect(() =>
+        flowControl.addChild("first", createTask("b", order))
+      ).toThrow("A task or task group with the id b exists already");
+    });
+
+    it("leaves out removed tasks and refuses to remove started ones", async () => {
+      const flowControl = new FlowControl();
+      const order: string[] = [];
+      const errors: unknown[] = [];
+      const group = new TaskGroup("group", {
+        parallel: true,
+        maxConcurrency: 1,
+      });
+      group.addChild(
+        createTask("a", order, () => {
+          flowControl.removeChild("c");
+          try {
+            flowControl.removeChild("a");
+          } catch (error) {
+            errors.push(error);
+          }
+          flowControl.addChild("group", createTask("d", order));
+        })
+      );
+      group.addChild(createTask("b", order));
+      group.addChild(createTask("c", order));
+      flowControl.addGroup(group);
+      const removed = jest.fn();
+      flowControl.on("childRemoved", removed);
+
+      await flowControl.run();
+
+      expect(order).toEqual(["a", "b", "d"]);
+      expect(removed).toHaveBeenCalledTimes(1);
+      expect(errors).toEqual([
+        new Error("Task a has already started and cannot be removed"),
+      ]);
+      expect(flowControl.getSerializedState().group.children!.c).toBeUndefined();
+    });
+
+    it("runs moved tasks in their new order", async () => {
+      const flowControl = new FlowControl();
+      const order: string[] = [];
+      const group = new TaskGroup("group");
+      group.addChild(
+        createTask("a", order, () =>
+          flowControl.moveChild("c", { after: "a" })
+        )
+      );
+      group.addChild(createTask("b", order));
+      group.addChild(createTask("c", order));
+      flowControl.addGroup(group);
+      const moved = jest.fn();
+      flowControl.on("childMoved", moved);
+
+      await flowControl.run();
+
+      expect(order).toEqual(["a", "c", "b"]);
+      expect(moved).toHaveBeenCalledWith(group, group.children.get("c"));
+      expect(() => flowControl.moveChild("group", { after: "a" })).toThrow(
+        "Task group group is a top-level group"
+      );
+    });
+  });
+
+  describe("validation", () => {
+    const makeTask = (
+      id: string,
+      options: Partial<ConstructorParameters<typeof Task>[0]> = {}
+    ) =>
+      new Task({
+        id,
+        execute: jest.fn(),
+        checkCondition: async () => true,
+        ...options,
+      });
+
+    it("reports every problem with its path", () => {
+      const flowControl = new FlowControl();
+      const provision = new TaskGroup("Provision");
+      const nested = new TaskGroup("Nested");
+      provision.addChild(makeTask("a", { nextTasks: ["b", "missing"] }));
+      provision.addChild(
+        makeTask("b", { dependsOn: ["c"], retries: -1, waitTime: -5 })
+      );
+      nested.addChild(makeTask("a"));
+      provision.addChild(nested);
+      provision.addChild(new TaskGroup("Empty"));
+      provision.addChild(
+        makeTask("c", { dependsOn: ["b"], resources: ["cluster"] })
+      );
+      flowControl.addGroup(provision);
+
+      const at = '$["Provision"].children';
+      expect(flowControl.validate()).toEqual([
+        {
+          code: "invalid_option",
+          severity: "error",
+          path: `${at}["b"].retries`,
+          message: "Expected an integer of at least 0",
+        },
+        {
+          code: "invalid_option",
+          severity: "error",
+          path: `${at}["b"].waitTime`,
+          message: "Expected a number of at least 0",
+        },
+        {
+          code: "duplicate_id",
+          severity: "error",
+          path: `${at}["Nested"].children["a"]`,
+          message: `Duplicate id "a", first used at ${at}["a"]`,
+        },
+        {
+          code: "empty_group",
+          severity: "warning",
+          path: `${at}["Empty"]`,
+          message: "Task group has no children",
+        },
+        {
+          code: "unknown_reference",
+          severity: "error",
+          path: `${at}["c"].resources[0]`,
+          message: "Unknown resource cluster",
+        },
+        {
+          code: "unknown_reference",
+          severity: "error",
+          path: `${at}["a"].nextTasks[1]`,
+          message: "Unknown task missing",
+        },
+        {
+          code: "dependency_cycle",
+          severity: "error",
+          path: `${at}["b"]`,
+          message: "Dependency cycle detected: b -> c -> b",
+        },
+      ]);
+    });
+
+    it("reports children replaced by another one with the same id", () => {
+      const flowControl = new FlowControl();
+      const group = new TaskGroup("group");
+      group.addChild(makeTask("a"));
+      group.addChild(makeTask("a"));
+      group.addChild(makeTask("b"));
+      group.moveChild("b", { before: "a" });
+      flowControl.addGroup(group);
+      flowControl.addGroup(new TaskGroup("group"));
+
+      expect(
+        flowControl.validate().map(({ code, path, message }) => ({
+          code,
+          path,
+          message,
+        }))
+      ).toEqual([
+        {
+          code: "duplicate_id",
+          path: '$["group"]',
+          message:
+            "Task group group was replaced by another group with the same id",
+        },
+        {
+          code: "empty_group",
+          path: '$["group"]',
+          message: "Task group has no children",
+        },
+      ]);
+
+      flowControl.removeGroup("group");
+      flowControl.addGroup(group);
+      expect(flowControl.validate()).toEqual([
+        expect.objectContaining({
+          path: '$["group"].children["a"]',
+          message: "Task a was replaced by another child with the same id",
+        }),
+      ]);
+      group.removeChild("a");
+      expect(flowControl.validate()).toEqual([]);
+    });
+
+    it("refuses to run an invalid flow with the validate option", async () => {
+      const flowControl = new FlowControl({ validate: true });
+      const execute = jest.fn();
+      const group = new TaskGroup("group");
+      const task = makeTask("a", { execute, nextTasks: ["missing"] });
+      group.addChild(task);
+      group.addChild(new TaskGroup("empty"));
+      flowControl.addGroup(group);
+
+      const run = flowControl.run();
+      await expect(run).rejects.toBeInstanceOf(FlowValidationError);
+      await expect(run).rejects.toMatchObject({
+        diagnostics: [
+          expect.objectContaining({
+            path: '$["group"].children["a"].nextTasks[0]',
+          }),
+        ],
+      });
+      expect(execute).not.toHaveBeenCalled();
+
+      task.nextTasks = [];
+      await flowControl.run();
+      expect(execute).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("guards", () => {
+    it("skips tasks whose guard returns false", async () => {
+      const flowControl = new FlowControl();
+      const execute = jest.fn(async () => ({ output: "done" }));
+      const skippedExecute = jest.fn(async () => {});
+      const group = new TaskGroup("group");
+      group.addChild(
+        new Task({ id: "a", execute, checkCondition: async () => true })
+      );
+      group.addChild(
+        new Task({
+          id: "b",
+          execute: skippedExecute,
+          checkCondition: async () => true,
+          guard: ({ inputs, outputs }) =>
+            inputs.enabled === true && outputs.get("a") === "done",
+        })
+      );
+      flowControl.addGroup(group);
+      const skipped = jest.fn();
+      flowControl.on("taskSkipped", skipped);
+
+      await flowControl.run({ inputs: { enabled: false } });
+      expect(skippedExecute).not.toHaveBeenCalled();
+      expect(skipped).toHaveBeenCalledWith(group.children.get("b"));
+      expect(flowControl.getSerializedState().group.children!.b).toMatchObject({
+        state: "skipped",
+        skipReason: "Skipped by its guard",
+      });
+
+      await flowControl.run({ inputs: { enabled: true } });
+      expect(skippedExecute).toHaveBeenCalledTimes(1);
+    });
+
+    it("fails tasks whose guard throws", async () => {
+      const flowControl = new FlowControl();
+      const execute = jest.fn();
+      const group = new TaskGroup("group");
+      group.addChild(
+        new Task({
+          id: "a",
+          execute,
+          checkCondition: async () => true,
+          guard: () => {
+            throw new Error("no inventory");
+          },
+        })
+      );
+      flowControl.addGroup(group);
+      const failed = jest.fn();
+      flowControl.on("taskFailed", failed);
+
+      await expect(flowControl.run()).rejects.toThrow("no inventory");
+      expect(execute).not.toHaveBeenCalled();
+      expect(failed).toHaveBeenCalledWith(
+        group.children.get("a"),
+        new Error("no inventory")
+      );
+      expect(flowControl.getSerializedState().group.children!.a.state).toBe(
+        "failed"
+      );
+    });
+  });
+
+  describe("shared resources", () => {
+    it("limits tasks of different groups sharing a resource", async () => {
+      const flowControl = new FlowControl({
+        resources: { cluster: { maxConcurrency: 1 } },
+      });
+      let running = 0;
+      let maxRunning = 0;
+      const createTask = (id: string) =>
+        new Task({
+          id,
+          execute: async () => {
+            running++;
+            maxRunning = Math.max(maxRunning, running);
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            running--;
+          },
+          checkCondition: async () => true,
+          resources: ["cluster"],
+        });
+      const all = new TaskGroup("all", { parallel: true });
+      const first = new TaskGroup("first");
+      const second = new TaskGroup("second");
+      first.addChild(createTask("a"));
+      second.addChild(createTask("b"));
+      all.addChild(first);
+      all.addChild(second);
+      flowControl.addGroup(all);
+      const waiting = jest.fn();
+      flowControl.on("taskWaiting", waiting);
+
+      const run = flowControl.run();
+      await jest.advanceTimersByTimeAsync(5);
+      const { children } = flowControl.getSerializedState().all;
+      expect(children!.first.children!.a.state).toBe("in_progress");
+      expect(children!.second.state).toBe("in_progress");
+      expect(children!.second.children!.b).toMatchObject({
+        state: "waiting",
+        waitingFor: ["cluster"],
+      });
+      expect(waiting).toHaveBeenCalledWith(second.children.get("b"), [
+        "cluster",
+      ]);
+
+      await jest.advanceTimersByTimeAsync(20);
+      await run;
+      expect(maxRunning).toBe(1);
+      expect(
+        flowControl.getSerializedState().all.children!.second.children!.b
+      ).not.toHaveProperty("waitingFor");
+    });
+
+    it("fails tasks whose run times out while they wait for a resource", async () => {
+      const exporter = new InMemorySpanExporter();
+      const flowControl = new FlowControl({
+        resources: { cluster: { maxConcurrency: 1 } },
+        tracer: new BasicTracer(exporter),
+      });
+      const group = new TaskGroup("group", { parallel: true });
+      const [, b] = ["a", "b"].map((id) => {
+        const task = new Task({
+          id,
+          execute: () => new Promise((resolve) => setTimeout(resolve, 100)),
+          checkCondition: async () => true,
+          resources: ["cluster"],
+        });
+        group.addChild(task);
+        return task;
+      });
+      flowControl.addGroup(group);
+      const failed = jest.fn();
+      flowControl.on("taskFailed", failed);
+
+      const run = expect(flowControl.run({ deadline: 50 })).rejects.toThrow(
+        TimeoutError
+      );
+      await jest.advanceTimersByTimeAsync(100);
+      await run;
+
+      expect(b.state).toBe("timed_out");
+      expect(failed).toHaveBeenCalledWith(b, expect.any(TimeoutError));
+      const span = exporter
+        .getFinishedSpans()
+        .find((span) => span.name === "task b")!;
+      expect(span.status.code).toBe("error");
+      expect(span.attributes["flow.task.state"]).toBe("timed_out");
+      expect(
+        flowControl.getSerializedState().group.children!.b
+      ).not.toHaveProperty("waitingFor");
+    });
+
+    it("takes a rate limit token for every attempt", async () => {
+      const flowControl = new FlowControl({
+        resources: { api: { rateLimit: { limit: 1, interval: 1000 } } },
+      });
+      const calls: number[] = [];
+      const group = new TaskGroup("group");
+      group.addChild(
+        new Task({
+          id: "flaky",
+          execute: async () => {
+            calls.push(Date.now());
+            if (calls.length < 3) {
+              throw new Error("unavailable");
+            }
+          },
+          checkCondition: async () => true,
+          resources: ["api"],
+          retries: 2,
+          waitTime: 0,
+        })
+      );
+      flowControl.addGroup(group);
+
+      const run = flowControl.run();
+      await jest.advanceTimersByTimeAsync(2000);
+      await run;
+
+      expect(calls.map((time) => time - calls[0])).toEqual([0, 1000, 2000]);
+    });
+
+    it("rejects tasks requiring unknown resources before running", async () => {
+      const flowControl = new FlowControl();
+      const execute = jest.fn();
+      const group = new TaskGroup("group");
+      group.addChild(
+        new Task({
+          id: "a",
+          execute,
+          checkCondition: async () => true,
+          resources: ["cluster"],
+        })
+      );
+      flowControl.addGroup(group);
+
+      await expect(flowControl.run()).rejects.toThrow(
+        "Task a requires unknown resource cluster"
+      );
+      expect(execute).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("state store", () => {
+    it("saves a snapshot on every task transition", async () => {
+      const snapshots: any[] = [];
+      const stateStore: StateStore = {
+        save: jest.fn(async (state) => {
+          snapshots.push(state);
+        }),
+        load: jest.fn(),
+      };
+      const flowControl = new FlowControl({ stateStore });
+      const group = new TaskGroup("group");
+      group.addChild(
+        new Task({
+          id: "task",
+          execute: jest.fn(),
+          checkCondition: async () => true,
+        })
+      );
+      flowControl.addGroup(group);
+
+      await flowControl.run();
+
+      const taskStates = snapshots.map(
+        (snapshot) => snapshot.group.children.task.state
+      );
+      expect(taskStates[0]).toBe("not_started");
+      expect(taskStates).toContain("in_progress");
+      expect(taskStates[taskStates.length - 1]).toBe("completed");
+      expect(snapshots[snapshots.length - 1].group.state).toBe("completed");
+    });
+
+    it("reports failing saves through the error event", async () => {
+      const stateStore: StateStore = {
+        save: jest.fn(async () => {
+          throw new Error("disk full");
+        }),
+        load: jest.fn(),
+      };
+      const flowControl = new FlowControl({ stateStore });
+      flowControl.addGroup(new TaskGroup("group"));
+      const onError = jest.fn();
+      flowControl.on("error", onError);
+
+      await flowControl.run();
+
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: "disk full" }));
+    });
+  });
+
+  describe("events", () => {
+    const buildFlow = (options = {}) => {
+      const flowControl = new FlowControl(options);
+      const group = new TaskGroup("group");
+      const jumper = new Task({
+        id: "jumper",
+        execute: async () => "target",
+        checkCondition: async () => true,
+      });
+      const skipped = new Task({
+        id: "skipped",
+        execute: jest.fn(),
+        checkCondition: async () => true,
+      });
+      const target = new Task({
+        id: "target",
+        execute: jest.fn(),
+        checkCondition: async () => true,
+      });
+      [jumper, skipped, target].forEach((task) => group.addChild(task));
+      flowControl.addGroup(group);
+      return { flowControl, group, skipped };
+    };
+
+    it("emits taskSkipped and flowComplete", async () => {
+      const { flowControl, skipped } = buildFlow();
+      const onSkipped = jest.fn();
+      const onComplete = jest.fn();
+      flowControl.on("taskSkipped", onSkipped);
+      flowControl.on("flowComplete", onComplete);
+
+      await flowControl.run();
+
+      expect(onSkipped).toHaveBeenCalledWith(skipped);
+      expect(onComplete).toHaveBeenCalledWith(flowControl.getSerializedState());
+    });
+
+    it("emits taskFailed once a task has run out of retries", async () => {
+      const { flowControl, group } = buildFlow();
+      const error = new Error("failure");
+      const failing = new Task({
+        id: "failing",
+        execute: async () => {
+          throw error;
+        },
+        checkCondition: async () => true,
+      });
+      group.addChild(failing);
+      const onFailed = jest.fn();
+      flowControl.on("taskFailed", onFailed);
+
+      await expect(flowControl.run()).rejects.toBe(error);
+
+      expect(onFailed).toHaveBeenCalledWith(failing, error);
+    });
+
+    it("is not interrupted by a throwing listener", async () => {
+      const { flowControl } = buildFlow();
+      const onError = jest.fn();
+      flowControl.on("taskStarted", () => {
+        throw new Error("listener failed");
+      });
+      flowControl.on("error", onError);
+
+      await flowControl.run();
+
+      expect(onError).toHaveBeenCalledTimes(2);
+    });
+
+    it("hands listener errors to onListenerError", async () => {
+      const onListenerError = jest.fn();
+      const { flowControl } = buildFlow({ onListenerError });
+      const onError = jest.fn();
+      const error = new Error("listener failed");
+      flowControl.on("flowComplete", () => {
+        throw error;
+      });
+      flowControl.on("error", onError);
+
+      await flowControl.run();
+
+      expect(onListenerError).toHaveBeenCalledWith(error, "flowComplete");
+      expect(onError).not.toHaveBeenCalled();
+    });
+
+    it("waits for asynchronous listeners with awaitListeners", async () => {
+      const { flowControl } = buildFlow({ awaitListeners: true });
+      const calls: string[] = [];
+      flowControl.on("taskStarted", async (task) => {
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        calls.push(`listener:${task.id}`);
+      });
+      flowControl.on("taskComplete", (task) => {
+        calls.push(`complete:${task.id}`);
+      });
+
+      const running = flowControl.run();
+      await jest.advanceTimersByTimeAsync(200);
+      await running;
+
+      expect(calls).toEqual([
+        "listener:jumper",
+        "complete:jumper",
+        "listener:target",
+        "complete:target",
+      ]);
+    });
+
+    it("waits for the taskSkipped listeners of the graph scheduler", async () => {
+      const flowControl = new FlowControl({
+        scheduler: "graph",
+        awaitListeners: true,
+      });
+      const group = new TaskGroup("group");
+      group.addChild(
+        new Task({
+          id: "failing",
+          execute: async () => {
+            throw new Error("failure");
+          },
+          checkCondition: async () => true,
+        })
+      );
+      group.addChild(
+        new Task({
+          id: "dependent",
+          execute: jest.fn(),
+          checkCondition: async () => true,
+          dependsOn: ["failing"],
+        })
+      );
+      flowControl.addGroup(group);
+      const calls: string[] = [];
+      flowControl.on("taskSkipped", async (task) => {
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        calls.push(`skipped:${task.id}`);
+      });
+
+      const running = flowControl.run().catch((error) => {
+        calls.push(`failed:${error.message}`);
+      });
+      await jest.advanceTimersByTimeAsync(200);
+      await running;
+
+      expect(calls).toEqual(["skipped:dependent", "failed:failure"]);
+    });
+  });
+
+  describe("run context", () => {
+    it("hands inputs, outputs and a scratch store to every task", async () => {
+      const flowControl = new FlowControl();
+      const group = new TaskGroup("group");
+      const contexts: any[] = [];
+      group.addChild(
+        new Task<{ cluster: string }>({
+          id: "discover",
+          execute: async (context) => {
+            contexts.push({ ...context, outputs: new Map(context.outputs) });
+            context.scratch.set("seen", true);
+            return { output: [`${context.inputs.cluster}-node-1`] };
+          },
+          checkCondition: async () => true,
+        })
+      );
+      group.addChild(
+        new Task({
+          id: "configure",
+          execute: async (context) => {
+            contexts.push({ ...context, outputs: new Map(context.outputs) });
+          },
+          checkCondition: async () => true,
+        })
+      );
+      flowControl.addGroup(group);
+
+      await flowControl.run({ inputs: { cluster: "prod" } });
+
+      expect(contexts[0]).toMatchObject({
+        taskId: "discover",
+        attempt: 1,
+        inputs: { cluster: "prod" },
+      });
+      expect(contexts[0].outputs.size).toBe(0);
+      expect(contexts[1].outputs.get("discover")).toEqual(["prod-node-1"]);
+      expect(contexts[1].scratch.get("seen")).toBe(true);
+      expect(flowControl.getOutputs().get("discover")).toEqual(["prod-node-1"]);
+    });
+
+    it("keeps outputs separate from jump directives", async () => {
+      const flowControl = new FlowControl();
+      const group = new TaskGroup("group");
+      const jumper = new Task({
+        id: "jumper",
+        execute: async () => ({ output: 42, next: "target" }),
+        checkCondition: async () => true,
+      });
+      const skipped = new Task({
+        id: "skipped",
+        execute: jest.fn(),
+        checkCondition: async () => true,
+      });
+      const target = new Task({
+        id: "target",
+        execute: jest.fn(),
+        checkCondition: async () => true,
+      });
+      [jumper, skipped, target].forEach((task) => group.addChild(task));
+      flowControl.addGroup(group);
+
+      await flowControl.run();
+
+      expect(jumper.output).toBe(42);
+      expect(skipped.state).toBe("skipped");
+      expect(target.state).toBe("completed");
+      expect(flowControl.getOutputs().has("target")).toBe(false);
+    });
   });
 });
+
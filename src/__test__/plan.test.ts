@@ -0,0 +1,225 @@
+import {
+  diffPlans,
+  FlowControl,
+  formatPlan,
+  MapTaskGroup,
+  Task,
+  TaskGroup,
+  TaskGuardContext,
+} from "../index";
+
+const execute = jest.fn(async () => {});
+
+const makeTask = (
+  id: string,
+  options: {
+    dependsOn?: string[];
+    guard?: (context: TaskGuardContext) => boolean | Promise<boolean>;
+  } = {}
+) =>
+  new Task({
+    id,
+    execute,
+    checkCondition: async () => true,
+    ...options,
+  });
+
+const buildFlow = () => {
+  const flowControl = new FlowControl();
+  const provision = new TaskGroup("Provision");
+  provision.addChild(makeTask("setup"));
+  provision.addChild(
+    makeTask("install", {
+      dependsOn: ["setup"],
+      guard: ({ inputs }) => inputs.install !== false,
+    })
+  );
+  const verify = new TaskGroup("Verify");
+  verify.addChild(makeTask("smoke", { dependsOn: ["install"] }));
+  flowControl.addGroup(provision);
+  flowControl.addGroup(verify);
+  return flowControl;
+};
+
+describe("plan", () => {
+  beforeEach(() => {
+    execute.mockClear();
+  });
+
+  it("previews a fresh run without executing any task", async () => {
+    const flowControl = buildFlow();
+    const plan = await flowControl.plan({ inputs: { install: false } });
+
+    expect(execute).not.toHaveBeenCalled();
+    expect(plan).toEqual({
+      scheduler: "groups",
+      steps: [
+        { id: "Provision", type: "task-group", path: [], action: "run" },
+        { id: "setup", type: "task", path: ["Provision"], action: "run" },
+        {
+          id: "install",
+          type: "task",
+          path: ["Provision"],
+          action: "skip",
+          reason: "Skipped by its guard",
+        },
+        { id: "Verify", type: "task-group", path: [], action: "run" },
+        { id: "smoke", type: "task", path: ["Verify"], action: "run" },
+      ],
+      edges: [
+        ["setup", "install"],
+        ["install", "smoke"],
+      ],
+    });
+    expect(formatPlan(plan)).toBe(
+      [
+        "Provision [run]",
+        "  setup [run]",
+        "  install [skip: Skipped by its guard]",
+        "Verify [run]",
+        "  smoke [run]",
+        "Dependencies:",
+        "  setup -> install",
+        "  install -> smoke",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("applies the restored state when planning a resumed run", async () => {
+    const flowControl = buildFlow();
+    flowControl.restoreState({
+      Provision: {
+        type: "task-group",
+        state: "completed",
+        time: 2,
+        children: {
+          setup: { type: "task", state: "completed", time: 1, output: 3 },
+          install: {
+            type: "task",
+            state: "skipped",
+            time: 0,
+            skipReason: "Skipped by a jump from setup to Verify",
+          },
+        },
+      },
+      Verify: {
+        type: "task-group",
+        state: "failed",
+        time: 1,
+        children: { smoke: { type: "task", state: "failed", time: 1 } },
+      },
+    });
+    const guard = jest.fn(() => true);
+    flowControl.addChild("Verify", makeTask("report", { guard }));
+
+    const plan = await flowControl.plan({ resume: true });
+    expect(
+      plan.steps.map(({ id, action, reason }) => [id, action, reason])
+    ).toEqual([
+      ["Provision", "completed", undefined],
+      ["setup", "completed", undefined],
+      ["install", "skip", "Skipped by a jump from setup to Verify"],
+      ["Verify", "run", undefined],
+      ["smoke", "run", undefined],
+      ["report", "run", undefined],
+    ]);
+    expect(guard).toHaveBeenCalledWith({
+      taskId: "report",
+      inputs: {},
+      outputs: new Map([["setup", 3]]),
+    });
+    expect(flowControl.getSerializedState().Verify.children!.smoke.state).toBe(
+      "failed"
+    );
+  });
+
+  it("orders the steps by their dependencies with the graph scheduler", async () => {
+    const flowControl = new FlowControl({ scheduler: "graph" });
+    const first = new TaskGroup("First");
+    first.addChild(makeTask("a", { dependsOn: ["b"] }));
+    const second = new TaskGroup("Second");
+    const b = makeTask("b");
+    second.addChild(b);
+    flowControl.addGroup(first);
+    flowControl.addGroup(second);
+    flowControl.addGroup(new TaskGroup("Empty"));
+
+    const plan = await flowControl.plan();
+    expect(plan.steps.map((step) => step.id)).toEqual([
+      "Empty",
+      "Second",
+      "b",
+      "First",
+      "a",
+    ]);
+
+    first.addChild(makeTask("c", { dependsOn: ["a"] }));
+    second.addChild(makeTask("d", { dependsOn: ["c"] }));
+    b.dependsOn = ["d"];
+    await expect(flowControl.plan()).rejects.toThrow(
+      "Dependency cycle detected"
+    );
+  });
+
+  it("lists map task groups without their tasks", async () => {
+    const flowControl = new FlowControl();
+    const items = jest.fn(() => ["a", "b"]);
+    const group = new MapTaskGroup("Nodes", {
+      items,
+      createTask: (_item, id) => makeTask(id),
+    });
+    flowControl.addGroup(group);
+
+    const plan = await flowControl.plan();
+    expect(items).not.toHaveBeenCalled();
+    expect(plan.steps).toEqual([
+      {
+        id: "Nodes",
+        type: "task-group",
+        path: [],
+        action: "run",
+        reason: "Its tasks are created from its items when it runs",
+      },
+    ]);
+  });
+
+  it("reports the differences between two plans", async () => {
+    const flowControl = buildFlow();
+    const previous = await flowControl.plan();
+    flowControl.addChild("Verify", makeTask("report"));
+    flowControl.removeChild("smoke");
+    const next = await flowControl.plan({ inputs: { install: false } });
+
+    expect(diffPlans(previous, previous)).toEqual({
+      added: [],
+      removed: [],
+      changed: [],
+      addedEdges: [],
+      removedEdges: [],
+    });
+    expect(diffPlans(previous, next)).toEqual({
+      added: [{ id: "report", type: "task", path: ["Verify"], action: "run" }],
+      removed: [{ id: "smoke", type: "task", path: ["Verify"], action: "run" }],
+      changed: [
+        {
+          previous: {
+            id: "install",
+            type: "task",
+            path: ["Provision"],
+            action: "run",
+          },
+          next: {
+            id: "install",
+            type: "task",
+            path: ["Provision"],
+            action: "skip",
+            reason: "Skipped by its guard",
+          },
+        },
+      ],
+      addedEdges: [],
+      removedEdges: [["install", "smoke"]],
+    });
+  });
+});
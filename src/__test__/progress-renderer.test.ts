@@ -0,0 +1,100 @@
+import { FlowControl, ProgressRenderer, Task, TaskGroup } from "../index";
+
+jest.useFakeTimers();
+
+const buildFlow = () => {
+  const flowControl = new FlowControl();
+  const group = new TaskGroup("setup");
+  let attempts = 0;
+  group.addChild(
+    new Task({
+      id: "download",
+      execute: async () => {
+        await new Promise((resolve) => setTimeout(resolve, 1500));
+      },
+      checkCondition: async () => true,
+    })
+  );
+  group.addChild(
+    new Task({
+      id: "install",
+      execute: async () => {
+        attempts++;
+        throw new Error(`disk full ${attempts}`);
+      },
+      checkCondition: async () => true,
+      retries: 1,
+      waitTime: 100,
+    })
+  );
+  flowControl.addGroup(group);
+  return flowControl;
+};
+
+describe("ProgressRenderer", () => {
+  it("logs one line per event when the output is not a TTY", async () => {
+    const flowControl = buildFlow();
+    let output = "";
+    const renderer = new ProgressRenderer(flowControl, {
+      output: { write: (text: string) => (output += text) },
+    }).start();
+
+    const running = expect(flowControl.run()).rejects.toThrow("disk full 2");
+    await jest.advanceTimersByTimeAsync(1600);
+    await running;
+    renderer.stop();
+
+    expect(renderer.interactive).toBe(false);
+    expect(output).toBe(
+      [
+        "▶ download started",
+        "✔ download completed in 1.5s",
+        "▶ install started",
+        "↻ install attempt 1 failed, retrying in 100ms: disk full 1",
+        "✖ install failed: disk full 2",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("redraws the tree in place on a TTY", async () => {
+    const flowControl = buildFlow();
+    const frames: string[] = [];
+    const renderer = new ProgressRenderer(flowControl, {
+      output: { write: (text: string) => frames.push(text), isTTY: true },
+      interactive: true,
+    }).start();
+
+    const running = expect(flowControl.run()).rejects.toThrow("disk full 2");
+    await jest.advanceTimersByTimeAsync(500);
+    // Six spinner frames of 80ms have passed
+    expect(renderer.formatTree()).toEqual([
+      "⠦ setup 500ms",
+      "  ⠦ download 500ms",
+      "  ○ install",
+    ]);
+
+    await jest.advanceTimersByTimeAsync(1100);
+    await running;
+    renderer.stop();
+
+    expect(frames[0]).toBe("○ setup\n  ○ download\n  ○ install\n");
+    expect(frames[1].startsWith("\x1b[3A\x1b[0J")).toBe(true);
+    expect(frames[frames.length - 1]).toBe(
+      "\x1b[3A\x1b[0J✖ setup 1.6s\n" +
+        "  ✔ download 1.5s\n" +
+        "  ✖ install (1 retry) - disk full 2\n"
+    );
+  });
+
+  it("stops listening once stopped", () => {
+    const flowControl = buildFlow();
+    const renderer = new ProgressRenderer(flowControl, {
+      output: { write: () => {} },
+    }).start();
+
+    expect(flowControl.listenerCount("taskStarted")).toBe(1);
+    renderer.stop();
+    expect(flowControl.listenerCount("taskStarted")).toBe(0);
+  });
+});
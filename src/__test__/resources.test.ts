@@ -0,0 +1,83 @@
+import { Resource } from "../resources";
+
+jest.useFakeTimers();
+
+describe("Resource", () => {
+  it("lets at most maxConcurrency holders in, in the order they asked", async () => {
+    const resource = new Resource("api", { maxConcurrency: 2 });
+    const order: string[] = [];
+    expect(resource.tryAcquire()).toBe(true);
+    expect(resource.tryAcquire()).toBe(true);
+    expect(resource.tryAcquire()).toBe(false);
+
+    const first = resource.acquire().then(() => order.push("first"));
+    const second = resource.acquire().then(() => order.push("second"));
+    expect(resource.waiting).toBe(2);
+
+    resource.release();
+    await first;
+    expect(order).toEqual(["first"]);
+    expect(resource.holders).toBe(2);
+    resource.release();
+    await second;
+    expect(order).toEqual(["first", "second"]);
+  });
+
+  it("refills its tokens gradually", async () => {
+    const resource = new Resource("api", {
+      rateLimit: { limit: 2, interval: 1000 },
+    });
+    const acquired = jest.fn();
+    resource.acquire();
+    resource.acquire();
+    resource.acquire().then(acquired);
+    resource.acquire().then(acquired);
+
+    await jest.advanceTimersByTimeAsync(499);
+    expect(acquired).not.toHaveBeenCalled();
+    await jest.advanceTimersByTimeAsync(1);
+    expect(acquired).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(500);
+    expect(acquired).toHaveBeenCalledTimes(2);
+  });
+
+  it("hands tokens to holders before the tasks waiting to acquire it", async () => {
+    const resource = new Resource("api", {
+      maxConcurrency: 1,
+      rateLimit: { limit: 1, interval: 1000 },
+    });
+    const order: string[] = [];
+    resource.tryAcquire();
+    resource.acquire().then(() => order.push("acquired"));
+    resource.acquireToken().then(() => order.push("token"));
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(order).toEqual(["token"]);
+    expect(resource.holders).toBe(1);
+
+    resource.release();
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(order).toEqual(["token", "acquired"]);
+  });
+
+  it("stops waiting when the signal is aborted", async () => {
+    const resource = new Resource("api", { maxConcurrency: 1 });
+    const controller = new AbortController();
+    resource.tryAcquire();
+
+    const waiting = resource.acquire(controller.signal);
+    controller.abort(new Error("stop"));
+
+    await expect(waiting).rejects.toThrow("stop");
+    expect(resource.waiting).toBe(0);
+  });
+
+  it("rejects invalid limits", () => {
+    expect(() => new Resource("api", { maxConcurrency: 0 })).toThrow(
+      "Invalid maxConcurrency for resource api"
+    );
+    expect(
+      () => new Resource("api", { rateLimit: { limit: 1, interval: 0 } })
+    ).toThrow("Invalid rateLimit for resource api");
+  });
+});
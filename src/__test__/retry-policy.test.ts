@@ -0,0 +1,56 @@
+import {
+  DecorrelatedJitterBackoff,
+  ExponentialBackoff,
+  FixedBackoff,
+  LinearBackoff,
+  defaultShouldRetry,
+} from "../retry-policy";
+
+describe("retry policies", () => {
+  it("FixedBackoff waits the same time before every retry", () => {
+    const policy = new FixedBackoff({ retries: 3, delay: 500 });
+    expect(policy.maxRetries).toBe(3);
+    expect([1, 2, 3].map((retry) => policy.getDelay())).toEqual([500, 500, 500]);
+  });
+
+  it("LinearBackoff grows the wait by a constant increment up to the cap", () => {
+    const policy = new LinearBackoff({
+      retries: 4,
+      initialDelay: 100,
+      increment: 50,
+      maxDelay: 220,
+    });
+    expect([1, 2, 3, 4].map((retry) => policy.getDelay(retry))).toEqual([
+      100, 150, 200, 220,
+    ]);
+  });
+
+  it("ExponentialBackoff multiplies the wait up to the cap", () => {
+    const policy = new ExponentialBackoff({
+      retries: 5,
+      initialDelay: 100,
+      maxDelay: 1000,
+    });
+    expect([1, 2, 3, 4, 5].map((retry) => policy.getDelay(retry))).toEqual([
+      100, 200, 400, 800, 1000,
+    ]);
+  });
+
+  it("DecorrelatedJitterBackoff draws between the base and three times the previous wait", () => {
+    const policy = new DecorrelatedJitterBackoff({
+      retries: 3,
+      baseDelay: 100,
+      maxDelay: 1000,
+      random: () => 0.5,
+    });
+    expect(policy.getDelay(1, 0)).toBe(200);
+    expect(policy.getDelay(2, 200)).toBe(350);
+    expect(policy.getDelay(3, 900)).toBe(1000);
+  });
+
+  it("defaultShouldRetry does not retry programming errors", () => {
+    expect(defaultShouldRetry(new Error("network"))).toBe(true);
+    expect(defaultShouldRetry(new TypeError("undefined is not a function"))).toBe(false);
+    expect(defaultShouldRetry(new ReferenceError("x is not defined"))).toBe(false);
+  });
+});
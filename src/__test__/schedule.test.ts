@@ -0,0 +1,274 @@
+import { FlowControl, Task, TaskGroup } from "../index";
+import { CancelledError } from "../errors";
+import { FlowScheduler, ManualClock, ScheduleOptions } from "../schedule";
+
+const MINUTE = 60 * 1000;
+const START = Date.parse("2024-01-01T00:00:00Z");
+
+const flush = async () => {
+  for (let i = 0; i < 10; i++) {
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+};
+
+// A flow whose single task runs until `finish()` is called
+const createFlow = () => {
+  const pending: Array<() => void> = [];
+  const flowControl = new FlowControl();
+  const group = new TaskGroup("group");
+  group.addChild(
+    new Task({
+      id: "task",
+      execute: () => new Promise<void>((resolve) => pending.push(resolve)),
+      checkCondition: async () => true,
+    })
+  );
+  flowControl.addGroup(group);
+  return {
+    flowControl,
+    finish: async () => {
+      await flush();
+      pending.splice(0).forEach((resolve) => resolve());
+      await flush();
+    },
+  };
+};
+
+const setup = (options: ScheduleOptions) => {
+  const clock = new ManualClock(START);
+  const scheduler = new FlowScheduler({ clock });
+  const flow = createFlow();
+  scheduler.schedule("job", flow.flowControl, options);
+  return { clock, scheduler, ...flow };
+};
+
+const statuses = (scheduler: FlowScheduler) =>
+  scheduler.getHistory("job").map((run) => run.status);
+
+describe("FlowScheduler", () => {
+  it("runs a flow on a fixed interval and keeps its history", async () => {
+    const { clock, scheduler, finish } = setup({
+      trigger: { every: 10 * MINUTE },
+    });
+    scheduler.start();
+    expect(scheduler.getNextRunTime("job")).toBe(START + 10 * MINUTE);
+
+    clock.advance(10 * MINUTE);
+    await flush();
+    expect(statuses(scheduler)).toEqual(["running"]);
+    await finish();
+    clock.advance(10 * MINUTE);
+    await finish();
+
+    const history = scheduler.getHistory("job");
+    expect(history.map((run) => run.scheduledAt)).toEqual([
+      START + 10 * MINUTE,
+      START + 20 * MINUTE,
+    ]);
+    expect(history[0]).toMatchObject({
+      status: "completed",
+      catchUp: false,
+      startedAt: START + 10 * MINUTE,
+      endedAt: START + 10 * MINUTE,
+    });
+    expect(scheduler.getNextRunTime("job")).toBe(START + 30 * MINUTE);
+    await scheduler.stop();
+  });
+
+  it("follows cron expressions and one-off dates", async () => {
+    const cron = setup({ trigger: { cron: "0 * * * *", utc: true } });
+    cron.scheduler.start();
+    expect(cron.scheduler.getNextRunTime("job")).toBe(START + 60 * MINUTE);
+
+    const once = setup({ trigger: { at: new Date(START + MINUTE) } });
+    once.scheduler.start();
+    once.clock.advance(60 * MINUTE);
+    await once.finish();
+    expect(statuses(once.scheduler)).toEqual(["completed"]);
+    expect(once.scheduler.getNextRunTime("job")).toBeUndefined();
+  });
+
+  it.each([
+    ["skip", ["completed", "skipped"]],
+    ["queue", ["completed", "completed"]],
+    ["cancel-previous", ["cancelled", "completed"]],
+  ] as const)("applies the %s overlap policy", async (overlap, expected) => {
+    const { clock, scheduler, finish } = setup({
+      trigger: { every: MINUTE },
+      overlap,
+    });
+    const skipped = jest.fn();
+    scheduler.on("runSkipped", skipped);
+    scheduler.start();
+
+    clock.advance(MINUTE);
+    await flush();
+    clock.advance(MINUTE);
+    await flush();
+    await finish();
+    await finish();
+
+    expect(statuses(scheduler)).toEqual(expected);
+    expect(skipped).toHaveBeenCalledTimes(overlap === "skip" ? 1 : 0);
+    await scheduler.stop();
+  });
+
+  it.each([
+    ["skip", ["skipped"]],
+    ["queue", ["completed"]],
+  ] as const)(
+    "applies the %s overlap policy across the schedules of a flow",
+    async (overlap, expected) => {
+      const { clock, scheduler, flowControl, finish } = setup({
+        trigger: { every: MINUTE },
+      });
+      scheduler.schedule("other", flowControl, {
+        trigger: { every: MINUTE },
+        overlap,
+      });
+      const run = jest.spyOn(flowControl, "run");
+      scheduler.start();
+
+      clock.advance(MINUTE);
+      await flush();
+      expect(statuses(scheduler)).toEqual(["running"]);
+      await finish();
+      await finish();
+
+      expect(statuses(scheduler)).toEqual(["completed"]);
+      expect(
+        scheduler.getHistory("other").map((entry) => entry.status)
+      ).toEqual(expected);
+      expect(run).toHaveBeenCalledTimes(overlap === "queue" ? 2 : 1);
+      await scheduler.stop();
+    }
+  );
+
+  it("only cancels the runs it started", async () => {
+    const { clock, scheduler, flowControl, finish } = setup({
+      trigger: { every: MINUTE },
+    });
+    const cancel = jest.spyOn(flowControl, "cancel");
+    scheduler.start();
+
+    clock.advance(MINUTE);
+    await flush();
+    await scheduler.stop({ cancel: true });
+    await finish();
+
+    expect(statuses(scheduler)).toEqual(["cancelled"]);
+    expect(cancel).not.toHaveBeenCalled();
+  });
+
+  it("follows the signal of the run options", async () => {
+    const controller = new AbortController();
+    const { clock, scheduler } = setup({
+      trigger: { every: MINUTE },
+      runOptions: { signal: controller.signal },
+    });
+    scheduler.start();
+
+    clock.advance(MINUTE);
+    await flush();
+    controller.abort(new CancelledError());
+    await flush();
+
+    expect(statuses(scheduler)).toEqual(["cancelled"]);
+    await scheduler.stop();
+  });
+
+  it.each([
+    ["none", ["missed", "missed", "missed"]],
+    ["latest", ["missed", "missed", "completed"]],
+    ["all", ["completed", "completed", "completed"]],
+  ] as const)(
+    "catches up on missed runs with the %s policy",
+    async (catchUp, expected) => {
+      const { clock, scheduler, finish } = setup({
+        trigger: { every: 10 * MINUTE },
+        overlap: "queue",
+        catchUp,
+        lastRunAt: START - 35 * MINUTE,
+      });
+      scheduler.start();
+      clock.advance(0);
+      await finish();
+      await finish();
+      await finish();
+
+      const history = scheduler.getHistory("job");
+      expect(history.map((run) => run.status)).toEqual(expected);
+      expect(history.map((run) => run.scheduledAt)).toEqual([
+        START - 25 * MINUTE,
+        START - 15 * MINUTE,
+        START - 5 * MINUTE,
+      ]);
+      expect(
+        history.every((run) => run.catchUp === (run.status !== "missed"))
+      ).toBe(true);
+      expect(scheduler.getNextRunTime("job")).toBe(START + 5 * MINUTE);
+      await scheduler.stop();
+    }
+  );
+
+  it.each([
+    ["an interval", { every: MINUTE }],
+    ["a cron expression", { cron: "* * * * *" }],
+  ] as const)(
+    "only looks at the most recent runs after a long outage with %s",
+    async (_name, trigger) => {
+      const { clock, scheduler, finish } = setup({
+        trigger,
+        catchUp: "latest",
+        historyLimit: 5,
+        lastRunAt: START - 365 * 24 * 60 * MINUTE,
+      });
+      scheduler.start();
+      clock.advance(0);
+      await finish();
+
+      const history = scheduler.getHistory("job");
+      expect(history.map((run) => run.status)).toEqual([
+        "missed",
+        "missed",
+        "missed",
+        "missed",
+        "completed",
+      ]);
+      expect(history.map((run) => run.scheduledAt)).toEqual(
+        [4, 3, 2, 1, 0].map((minutes) => START - minutes * MINUTE)
+      );
+      expect(scheduler.getNextRunTime("job")).toBe(START + MINUTE);
+      await scheduler.stop();
+    }
+  );
+
+  it("records failed runs with their error", async () => {
+    const clock = new ManualClock(START);
+    const scheduler = new FlowScheduler({ clock });
+    const flowControl = new FlowControl();
+    const group = new TaskGroup("group");
+    group.addChild(
+      new Task({
+        id: "broken",
+        execute: async () => {
+          throw new Error("broken");
+        },
+        checkCondition: async () => true,
+      })
+    );
+    flowControl.addGroup(group);
+    const finished = jest.fn();
+    scheduler.on("runFinished", finished);
+    scheduler.schedule("job", flowControl, { trigger: { every: MINUTE } });
+    scheduler.start();
+
+    clock.advance(MINUTE);
+    await flush();
+
+    expect(finished).toHaveBeenCalledWith(
+      expect.objectContaining({ status: "failed", error: new Error("broken") })
+    );
+    await scheduler.stop();
+  });
+});
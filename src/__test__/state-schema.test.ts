@@ -0,0 +1,120 @@
+import {
+  FlowControl,
+  StateSchemaError,
+  Task,
+  TaskGroup,
+  createStateDocument,
+  readStateDocument,
+  validateSerializedState,
+} from "../index";
+
+describe("validateSerializedState", () => {
+  it("accepts the output of getSerializedState", async () => {
+    const flowControl = new FlowControl();
+    const group = new TaskGroup("group");
+    group.addChild(
+      new Task({
+        id: "task",
+        execute: async () => ({ output: "done" }),
+        checkCondition: async () => true,
+      })
+    );
+    flowControl.addGroup(group);
+
+    await flowControl.run();
+
+    expect(validateSerializedState(flowControl.getSerializedState())).toEqual(
+      []
+    );
+  });
+
+  it("reports every problem with its path", () => {
+    const issues = validateSerializedState({
+      group: {
+        type: "task-group",
+        state: "paused",
+        time: 10,
+        children: {
+          "a task": {
+            type: "task",
+            state: "partially_failed",
+            time: -1,
+            attempts: [
+              {
+                attempt: 0,
+                startTime: 1,
+                endTime: 2,
+                state: "failed",
+                error: "boom",
+              },
+            ],
+          },
+          other: { type: "job", state: "completed", time: 0 },
+        },
+        extra: true,
+      },
+    });
+
+    expect(issues).toEqual([
+      { path: '$["group"].extra', message: "Unknown property" },
+      {
+        path: '$["group"].children["a task"].state',
+        message: expect.stringMatching(/^Expected one of "not_started", /),
+      },
+      {
+        path: '$["group"].children["a task"].attempts[0].attempt',
+        message: "Expected an integer of at least 1",
+      },
+      {
+        path: '$["group"].children["a task"].attempts[0].error',
+        message: "Expected { name: string, message: string, stack?: string }",
+      },
+      {
+        path: '$["group"].children["a task"].time',
+        message: "Expected a number of at least 0",
+      },
+      {
+        path: '$["group"].children["other"].type',
+        message: 'Expected "task" or "task-group"',
+      },
+    ]);
+  });
+});
+
+describe("state documents", () => {
+  const state = {
+    group: {
+      type: "task-group" as const,
+      state: "completed" as const,
+      time: 0,
+      children: {},
+    },
+  };
+
+  it("unwraps versioned documents and accepts bare version 1 states", () => {
+    expect(createStateDocument(state)).toEqual({ version: 2, state });
+    expect(readStateDocument(createStateDocument(state))).toBe(state);
+    expect(readStateDocument(state)).toBe(state);
+  });
+
+  it("throws a StateSchemaError for unsupported versions and invalid states", () => {
+    expect(() => readStateDocument({ version: 3, state })).toThrow(
+      "Unsupported version 3, expected 1 to 2"
+    );
+    try {
+      readStateDocument({
+        version: 2,
+        state: { group: { type: "task-group" } },
+      });
+    } catch (error) {
+      expect(error).toBeInstanceOf(StateSchemaError);
+      const { issues } = error as StateSchemaError;
+      expect(issues.map(({ path }) => path)).toEqual([
+        '$.state["group"].state',
+        '$.state["group"].children',
+        '$.state["group"].time',
+      ]);
+    }
+    expect.assertions(3);
+  });
+});
@@ -0,0 +1,75 @@
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { StateSchemaError } from "../errors";
+import { FileStateStore } from "../file-state-store";
+import { MemoryStateStore } from "../state-store";
+
+const state = {
+  group: {
+    type: "task-group" as const,
+    state: "completed" as const,
+    time: 10,
+    children: {
+      task: { type: "task" as const, state: "completed" as const, time: 10 },
+    },
+  },
+};
+
+describe("MemoryStateStore", () => {
+  it("returns undefined before anything was saved", async () => {
+    await expect(new MemoryStateStore().load()).resolves.toBeUndefined();
+  });
+
+  it("returns a copy of the last saved state", async () => {
+    const store = new MemoryStateStore();
+    await store.save(state);
+
+    const loaded = await store.load();
+    expect(loaded).toEqual(state);
+    expect(loaded).not.toBe(state);
+  });
+});
+
+describe("FileStateStore", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "flow-state-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it("returns undefined when the file does not exist", async () => {
+    const store = new FileStateStore(path.join(directory, "state.json"));
+    await expect(store.load()).resolves.toBeUndefined();
+  });
+
+  it("writes the versioned state as JSON without leaving temporary files behind", async () => {
+    const filePath = path.join(directory, "state.json");
+    const store = new FileStateStore(filePath);
+
+    await store.save(state);
+    await store.save({ ...state, other: state.group });
+
+    expect(await fs.readdir(directory)).toEqual(["state.json"]);
+    expect(JSON.parse(await fs.readFile(filePath, "utf8"))).toEqual({
+      version: 2,
+      state: { ...state, other: state.group },
+    });
+    await expect(store.load()).resolves.toEqual({ ...state, other: state.group });
+  });
+
+  it("reads unversioned files and rejects invalid ones", async () => {
+    const filePath = path.join(directory, "state.json");
+    const store = new FileStateStore(filePath);
+
+    await fs.writeFile(filePath, JSON.stringify(state));
+    await expect(store.load()).resolves.toEqual(state);
+
+    await fs.writeFile(filePath, JSON.stringify({ version: 3, state }));
+    await expect(store.load()).rejects.toThrow(StateSchemaError);
+  });
+});
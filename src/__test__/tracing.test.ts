@@ -0,0 +1,210 @@
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  BasicTracer,
+  FlowControl,
+  InMemorySpanExporter,
+  SpanData,
+  Task,
+  TaskGroup,
+} from "../index";
+import { JsonLinesSpanExporter } from "../node";
+
+const createFlow = (tracer: BasicTracer, scheduler?: "groups" | "graph") => {
+  let calls = 0;
+  const flowControl = new FlowControl({ tracer, scheduler });
+  const outer = new TaskGroup("outer");
+  const inner = new TaskGroup("inner", { parallel: true });
+  outer.addChild(
+    new Task({
+      id: "first",
+      execute: async () => {},
+      checkCondition: async () => true,
+      nextTasks: ["flaky"],
+    })
+  );
+  inner.addChild(
+    new Task({
+      id: "flaky",
+      execute: async () => {
+        if (calls++ === 0) {
+          throw new Error("first attempt fails");
+        }
+      },
+      checkCondition: async () => true,
+      retries: 1,
+      waitTime: 0,
+    })
+  );
+  outer.addChild(inner);
+  flowControl.addGroup(outer);
+  return flowControl;
+};
+
+const byName = (spans: SpanData[], name: string) =>
+  spans.find((span) => span.name === name)!;
+
+describe("tracing", () => {
+  it.each(["groups", "graph"] as const)(
+    "records nested spans for the run, groups, tasks and attempts with the %s scheduler",
+    async (scheduler) => {
+      const exporter = new InMemorySpanExporter();
+      await createFlow(new BasicTracer(exporter), scheduler).run();
+
+      const spans = exporter.getFinishedSpans();
+      expect(spans.map((span) => span.name).sort()).toEqual([
+        "attempt 1",
+        "attempt 1",
+        "attempt 2",
+        "flow",
+        "group inner",
+        "group outer",
+        "task first",
+        "task flaky",
+      ]);
+
+      const flow = byName(spans, "flow");
+      const outer = byName(spans, "group outer");
+      const inner = byName(spans, "group inner");
+      const flaky = byName(spans, "task flaky");
+      expect(flow.parentSpanId).toBeUndefined();
+      expect(flow.attributes["flow.scheduler"]).toBe(scheduler);
+      expect(outer.parentSpanId).toBe(flow.spanId);
+      expect(inner.parentSpanId).toBe(outer.spanId);
+      expect(byName(spans, "task first").parentSpanId).toBe(outer.spanId);
+      expect(flaky.parentSpanId).toBe(inner.spanId);
+      expect(spans.every((span) => span.traceId === flow.traceId)).toBe(true);
+      expect(spans.every((span) => span.endTime >= span.startTime)).toBe(true);
+
+      expect(flaky.status).toEqual({ code: "ok" });
+      expect(flaky.attributes).toMatchObject({
+        "flow.task.id": "flaky",
+        "flow.task.state": "completed",
+        "flow.task.attempts": 2,
+      });
+      const attempts = spans.filter(
+        (span) => span.parentSpanId === flaky.spanId
+      );
+      expect(attempts.map((span) => span.status)).toEqual([
+        { code: "error", message: "first attempt fails" },
+        { code: "ok" },
+      ]);
+      expect(attempts[0].error).toMatchObject({
+        name: "Error",
+        message: "first attempt fails",
+      });
+      expect(attempts[0].attributes["flow.attempt.retry_delay"]).toBe(0);
+    }
+  );
+
+  it("marks the spans of a failed run as errors", async () => {
+    const exporter = new InMemorySpanExporter();
+    const flowControl = new FlowControl({
+      tracer: new BasicTracer(exporter),
+    });
+    const group = new TaskGroup("group");
+    group.addChild(
+      new Task({
+        id: "broken",
+        execute: async () => {
+          throw new Error("broken");
+        },
+        checkCondition: async () => true,
+      })
+    );
+    flowControl.addGroup(group);
+
+    await expect(flowControl.run()).rejects.toThrow("broken");
+
+    const spans = exporter.getFinishedSpans();
+    ["flow", "group group", "task broken", "attempt 1"].forEach((name) => {
+      expect(byName(spans, name).status).toEqual({
+        code: "error",
+        message: "broken",
+      });
+    });
+    expect(byName(spans, "task broken").attributes["flow.task.state"]).toBe(
+      "failed"
+    );
+  });
+
+  it("records the attempts of resumed tasks", async () => {
+    const exporter = new InMemorySpanExporter();
+    let calls = 0;
+    const createResumableFlow = () => {
+      const flowControl = new FlowControl({
+        tracer: new BasicTracer(exporter),
+      });
+      const group = new TaskGroup("group");
+      group.addChild(
+        new Task({
+          id: "flaky",
+          execute: async () => {
+            if (calls++ === 0) {
+              throw new Error("first run fails");
+            }
+          },
+          checkCondition: async () => true,
+        })
+      );
+      flowControl.addGroup(group);
+      return flowControl;
+    };
+
+    const failed = createResumableFlow();
+    await expect(failed.run()).rejects.toThrow("first run fails");
+    const resumed = createResumableFlow();
+    resumed.restoreState(failed.getSerializedState());
+    exporter.reset();
+    await resumed.run({ resume: true });
+
+    const spans = exporter.getFinishedSpans();
+    const flaky = byName(spans, "task flaky");
+    expect(flaky.attributes["flow.task.attempts"]).toBe(1);
+    const attempts = spans.filter((span) => span.parentSpanId === flaky.spanId);
+    expect(attempts.map((span) => [span.name, span.status])).toEqual([
+      ["attempt 1", { code: "ok" }],
+    ]);
+  });
+
+  it("reports the errors of the exporter without failing the run", async () => {
+    const onError = jest.fn();
+    const tracer = new BasicTracer(
+      {
+        export: (spans) => {
+          if (spans[0].kind === "flow") {
+            throw new Error("exporter broken");
+          }
+          return Promise.reject(new Error("exporter unavailable"));
+        },
+      },
+      { onError }
+    );
+
+    await createFlow(tracer).run();
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(onError).toHaveBeenCalledTimes(8);
+    expect(onError).toHaveBeenCalledWith(new Error("exporter unavailable"));
+    expect(onError).toHaveBeenLastCalledWith(new Error("exporter broken"));
+  });
+
+  it("writes finished spans as JSON lines", async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), "tracing-"));
+    const filePath = path.join(directory, "spans.jsonl");
+    const exporter = new JsonLinesSpanExporter(filePath);
+
+    try {
+      await createFlow(new BasicTracer(exporter)).run();
+      await exporter.shutdown();
+
+      const lines = (await fs.readFile(filePath, "utf8")).trim().split("\n");
+      const spans: SpanData[] = lines.map((line) => JSON.parse(line));
+      expect(spans).toHaveLength(8);
+      expect(spans[spans.length - 1].name).toBe("flow");
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+});
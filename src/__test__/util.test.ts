@@ -1,4 +1,4 @@
-import { wait } from "../util";
+import { raceSignal, runWithConcurrency, wait } from "../util";
 
 jest.useFakeTimers();
 
@@ -8,4 +8,61 @@ describe("wait function", () => {
     jest.advanceTimersByTime(1000);
     await expect(promise).resolves.toBeUndefined();
   });
+
+  it("should reject with the abort reason when the signal aborts", async () => {
+    const controller = new AbortController();
+    const promise = wait(1000, controller.signal);
+    controller.abort(new Error("stop"));
+    await expect(promise).rejects.toThrow("stop");
+  });
+});
+
+describe("raceSignal", () => {
+  it("settles with the promise when the signal is not aborted", async () => {
+    const controller = new AbortController();
+    await expect(
+      raceSignal(Promise.resolve("done"), controller.signal)
+    ).resolves.toBe("done");
+  });
+
+  it("rejects as soon as the signal aborts", async () => {
+    const controller = new AbortController();
+    const promise = raceSignal(new Promise(() => {}), controller.signal);
+    controller.abort(new Error("stop"));
+    await expect(promise).rejects.toThrow("stop");
+  });
+});
+
+describe("runWithConcurrency", () => {
+  it("never runs more than the limit at once", async () => {
+    let active = 0;
+    let maxActive = 0;
+    const processed: number[] = [];
+
+    await runWithConcurrency([1, 2, 3, 4, 5], 2, async (item) => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await Promise.resolve();
+      processed.push(item);
+      active--;
+    });
+
+    expect(maxActive).toBe(2);
+    expect(processed.sort()).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it("stops starting new items after a failure and rethrows it", async () => {
+    const started: number[] = [];
+
+    await expect(
+      runWithConcurrency([1, 2, 3], 1, async (item) => {
+        started.push(item);
+        if (item === 2) {
+          throw new Error("boom");
+        }
+      })
+    ).rejects.toThrow("boom");
+
+    expect(started).toEqual([1, 2]);
+  });
 });
@@ -0,0 +1,164 @@
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { FlowControl, Task, TaskGroup, WorkflowSchemaError } from "../index";
+import {
+  buildFlow,
+  loadWorkflow,
+  loadWorkflowFile,
+  parseWorkflow,
+  validateWorkflow,
+} from "../node";
+
+const yamlSource = `
+options:
+  failurePolicy: continue
+groups:
+  - id: Provision Hardware
+    parallel: true
+    maxConcurrency: 2
+    children:
+      - id: Setup Network
+        execute: setupNetwork
+        checkCondition: networkReady
+        retries: 2
+        waitTime: 500
+        nextTasks: [Install Base OS]
+      - id: Install Base OS
+        execute: installOs
+`;
+
+const handlers = {
+  execute: {
+    setupNetwork: jest.fn(async () => {}),
+    installOs: jest.fn(async () => {}),
+  },
+  checkCondition: {
+    networkReady: jest.fn(async () => true),
+  },
+};
+
+describe("workflow loader", () => {
+  it("builds a flow from a YAML document", async () => {
+    const flowControl = loadWorkflow(yamlSource, handlers);
+
+    const group = flowControl.getTaskGroup("Provision Hardware")!;
+    expect(group).toBeInstanceOf(TaskGroup);
+    expect(group.parallel).toBe(true);
+    expect(group.maxConcurrency).toBe(2);
+
+    const task = group.children.get("Setup Network") as Task;
+    expect(task.retries).toBe(2);
+    expect(task.waitTime).toBe(500);
+    expect(task.nextTasks).toEqual(["Install Base OS"]);
+    expect(task.execute).toBe(handlers.execute.setupNetwork);
+    expect(task.checkCondition).toBe(handlers.checkCondition.networkReady);
+
+    await flowControl.run();
+    expect(handlers.execute.installOs).toHaveBeenCalledTimes(1);
+  });
+
+  it("builds a flow from a JSON document", () => {
+    const source = JSON.stringify({
+      groups: [
+        { id: "group", children: [{ id: "task", execute: "installOs" }] },
+      ],
+    });
+
+    const flowControl = loadWorkflow(source, handlers, { format: "json" });
+
+    expect(flowControl).toBeInstanceOf(FlowControl);
+    expect(flowControl.getTaskGroup("group")!.children.has("task")).toBe(true);
+  });
+
+  it("reports every schema error with its path", () => {
+    const issues = validateWorkflow({
+      groups: [
+        {
+          id: "group",
+          maxConcurrency: 0,
+          children: [
+            { id: "task", execute: "run", retries: -1, nextTask: ["x"] },
+            { id: "task", waitTime: "soon" },
+            { id: "nested", failurePolicy: "sometimes", children: [42] },
+          ],
+        },
+      ],
+    });
+
+    expect(issues).toEqual([
+      {
+        path: "$.groups[0].maxConcurrency",
+        message: "Expected an integer of at least 1",
+      },
+      {
+        path: "$.groups[0].children[0].nextTask",
+        message: "Unknown property",
+      },
+      {
+        path: "$.groups[0].children[0].retries",
+        message: "Expected an integer of at least 0",
+      },
+      {
+        path: "$.groups[0].children[1].id",
+        message:
+          'Duplicate id "task", first used at $.groups[0].children[0].id',
+      },
+      { path: "$.groups[0].children[1].execute", message: "Required" },
+      {
+        path: "$.groups[0].children[1].waitTime",
+        message: "Expected a number of at least 0",
+      },
+      {
+        path: "$.groups[0].children[2].failurePolicy",
+        message:
+          'Expected "fail-fast", "continue" or ' +
+          "{ maxFailures: <integer of at least 0> }",
+      },
+      {
+        path: "$.groups[0].children[2].children[0]",
+        message: "Expected a task or task group object",
+      },
+    ]);
+  });
+
+  it("throws a WorkflowSchemaError for invalid documents", () => {
+    expect(() => parseWorkflow("groups: {")).toThrow(WorkflowSchemaError);
+    try {
+      parseWorkflow("groups:\n  - id: task\n    execute: run\n");
+    } catch (error) {
+      expect((error as WorkflowSchemaError).issues).toEqual([
+        {
+          path: "$.groups[0].children",
+          message: "Top-level entries have to be task groups",
+        },
+      ]);
+    }
+    expect.assertions(2);
+  });
+
+  it("reports unknown handlers with their path", () => {
+    const definition = parseWorkflow(yamlSource);
+
+    expect(() => buildFlow(definition, { execute: {} })).toThrow(
+      /\$\.groups\[0\]\.children\[0\]\.execute: Unknown handler "setupNetwork"/
+    );
+  });
+
+  it("loads a workflow file and lets options override the document", async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), "workflow-"));
+    const filePath = path.join(directory, "workflow.yaml");
+    await fs.writeFile(filePath, yamlSource);
+
+    try {
+      const flowControl = await loadWorkflowFile(filePath, handlers, {
+        failurePolicy: "fail-fast",
+      });
+      expect((flowControl as any).options.failurePolicy).toBe(
+        "fail-fast"
+      );
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,414 @@
+#!/usr/bin/env node
+import * as path from "path";
+import { parseArgs } from "util";
+import {
+  CancelledError,
+  StateSchemaError,
+  TimeoutError,
+  WorkflowSchemaError,
+} from "./errors";
+import { SerializedState, TaskGroupState } from "./index";
+import { toDot, toMermaid } from "./diagram";
+import { ProgressRenderer } from "./progress-renderer";
+import { FileStateStore } from "./file-state-store";
+import {
+  TaskDefinition,
+  TaskGroupDefinition,
+  WorkflowDefinition,
+  WorkflowHandlers,
+  buildFlow,
+  readWorkflowFile,
+} from "./workflow";
+
+/**
+ * The exit codes of the `flow-like-water` command.
+ *
+ * - `success`: the command succeeded, or the saved flow completed.
+ * - `failed`: the flow failed, or the command hit an unexpected error.
+ * - `usage`: the command line is invalid.
+ * - `invalid`: the workflow definition, the handlers or the state file are invalid.
+ * - `partiallyFailed`: the flow finished with failures its policies tolerated.
+ * - `incomplete`: the saved flow has not finished, or the run was cancelled or timed out.
+ */
+export const EXIT_CODES = {
+  success: 0,
+  failed: 1,
+  usage: 2,
+  invalid: 3,
+  partiallyFailed: 4,
+  incomplete: 5,
+} as const;
+
+/**
+ * Where the command writes its output, `process` by default.
+ */
+export type CliIO = {
+  stdout: { write(text: string): unknown; isTTY?: boolean };
+  stderr: { write(text: string): unknown };
+};
+
+const USAGE = `Usage: flow-like-water <command> [options]
+
+Commands:
+  run <workflow>       Run a workflow
+  resume <workflow>    Resume a workflow from the state saved with --state
+  status               Print the state saved in a state file
+  validate <workflow>  Check a workflow definition and the flow built from it,
+                       and its handlers if given
+  graph <workflow>     Print the groups, tasks and dependencies of a workflow
+
+Options:
+  --handlers <module>  The module exporting the handlers the workflow refers to
+  --state <file>       The file the state is saved to and resumed from
+  --input <key=value>  An input handed to the tasks, can be repeated
+  --format <format>    The graph format: text, mermaid or dot (default: text).
+                       With --state, the diagram shows task states and durations
+  -h, --help           Show this message
+`;
+
+class UsageError extends Error {}
+
+type CommandOptions = {
+  handlers?: string;
+  state?: string;
+  input?: string[];
+  format?: string;
+};
+
+const requireOption = (value: string | undefined, name: string) => {
+  if (value === undefined) {
+    throw new UsageError(`The --${name} option is required`);
+  }
+  return value;
+};
+
+const loadHandlers = (modulePath: string): WorkflowHandlers => {
+  const loaded = require(path.resolve(modulePath));
+  const handlers = loaded && loaded.default ? loaded.default : loaded;
+  if (!handlers || typeof handlers.execute !== "object") {
+    throw new WorkflowSchemaError([
+      {
+        path: modulePath,
+        message:
+          "Expected the module to export { execute, checkCondition?, compensate? }",
+      },
+    ]);
+  }
+  return handlers;
+};
+
+const parseInputs = (inputs: string[] = []) => {
+  const parsed: Record<string, unknown> = {};
+  inputs.forEach((input) => {
+    const separator = input.indexOf("=");
+    if (separator < 1) {
+      throw new UsageError(`Expected --input key=value, got "${input}"`);
+    }
+    parsed[input.slice(0, separator)] = input.slice(separator + 1);
+  });
+  return parsed;
+};
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+// The code of Node.js errors, since anything can be thrown
+const errorCode = (error: unknown) =>
+  typeof error === "object" &&
+  error !== null &&
+  typeof (error as { code?: unknown }).code === "string"
+    ? (error as { code: string }).code
+    : undefined;
+
+const formatState = (state: SerializedState, depth = 0): string =>
+  Object.keys(state)
+    .map((id) => {
+      const entry = state[id];
+      const line = `${"  ".repeat(depth)}${id} [${entry.state}, ${entry.time}ms]\n`;
+      return (
+        line + (entry.children ? formatState(entry.children, depth + 1) : "")
+      );
+    })
+    .join("");
+
+// The overall state of a flow, from the states of its top-level groups
+const exitCodeForState = (state: SerializedState) => {
+  const states = Object.values(state).map((entry) => entry.state);
+  const has = (...candidates: TaskGroupState[]) =>
+    states.some((entry) => candidates.includes(entry));
+
+  if (has("failed", "compensation_failed", "compensated")) {
+    return EXIT_CODES.failed;
+  }
+  if (states.every((entry) => entry === "completed" || entry === "skipped")) {
+    return EXIT_CODES.success;
+  }
+  if (
+    has("partially_failed") &&
+    !has("not_started", "in_progress", "paused")
+  ) {
+    return EXIT_CODES.partiallyFailed;
+  }
+  return EXIT_CODES.incomplete;
+};
+
+const runWorkflow = async (
+  workflowPath: string,
+  options: CommandOptions,
+  io: CliIO,
+  resume: boolean
+) => {
+  const definition = await readWorkflowFile(workflowPath);
+  const handlers = loadHandlers(requireOption(options.handlers, "handlers"));
+  const statePath = resume
+    ? requireOption(options.state, "state")
+    : options.state;
+  const stateStore = statePath ? new FileStateStore(statePath) : undefined;
+  const flowControl = buildFlow(definition, handlers, { stateStore });
+  const inputs = parseInputs(options.input);
+
+  if (resume) {
+    const state = await stateStore!.load();
+    if (!state) {
+      throw new WorkflowSchemaError([
+        { path: statePath!, message: "No saved state found" },
+      ]);
+    }
+    flowControl.restoreState(state);
+  }
+
+  flowControl.on("error", (error) =>
+    io.stderr.write(`${errorMessage(error)}\n`)
+  );
+  const renderer = new ProgressRenderer(flowControl, {
+    output: io.stdout,
+  }).start();
+  const cancel = () => flowControl.cancel();
+  process.once("SIGINT", cancel);
+  try {
+    const result = await flowControl.run({ resume, inputs });
+    if (result.status === "partially_failed") {
+      io.stdout.write(
+        `Flow finished with ${result.errors.length} tolerated failure(s)\n`
+      );
+      return EXIT_CODES.partiallyFailed;
+    }
+    io.stdout.write("Flow completed\n");
+    return EXIT_CODES.success;
+  } catch (error) {
+    io.stderr.write(`Flow stopped: ${errorMessage(error)}\n`);
+    return error instanceof CancelledError || error instanceof TimeoutError
+      ? EXIT_CODES.incomplete
+      : EXIT_CODES.failed;
+  } finally {
+    renderer.stop();
+    process.off("SIGINT", cancel);
+  }
+};
+
+const printStatus = async (options: CommandOptions, io: CliIO) => {
+  const statePath = requireOption(options.state, "state");
+  const state = await new FileStateStore(statePath).load();
+  if (!state) {
+    throw new WorkflowSchemaError([
+      { path: statePath, message: "No saved state found" },
+    ]);
+  }
+  io.stdout.write(formatState(state));
+  return exitCodeForState(state);
+};
+
+const validate = async (
+  workflowPath: string,
+  options: CommandOptions,
+  io: CliIO
+) => {
+  const definition = await readWorkflowFile(workflowPath);
+  const handlers =
+    options.handlers !== undefined
+      ? loadHandlers(options.handlers)
+      : placeholderHandlers(definition);
+  const diagnostics = buildFlow(definition, handlers).validate();
+  diagnostics.forEach(({ severity, path, message }) =>
+    (severity === "error" ? io.stderr : io.stdout).write(
+      `${severity} ${path}: ${message}\n`
+    )
+  );
+  if (diagnostics.some(({ severity }) => severity === "error")) {
+    return EXIT_CODES.invalid;
+  }
+  io.stdout.write(`${workflowPath} is valid\n`);
+  return EXIT_CODES.success;
+};
+
+const formatGraph = (definition: WorkflowDefinition) => {
+  const lines: string[] = [];
+  const visit = (node: TaskGroupDefinition | TaskDefinition, depth: number) => {
+    const indent = "  ".repeat(depth);
+    if ("children" in node) {
+      lines.push(`${indent}${node.id}${node.parallel ? " (parallel)" : ""}`);
+      node.children.forEach((child) => visit(child, depth + 1));
+      return;
+    }
+    let line = `${indent}${node.id}`;
+    if (node.dependsOn && node.dependsOn.length > 0) {
+      line += ` <- ${node.dependsOn.join(", ")}`;
+    }
+    if (node.nextTasks && node.nextTasks.length > 0) {
+      line += ` -> ${node.nextTasks.join(", ")}`;
+    }
+    lines.push(line);
+  };
+  definition.groups.forEach((group) => visit(group, 0));
+  return `${lines.join("\n")}\n`;
+};
+
+// Diagrams only need the structure of the flow, so every handler is a no-op
+const placeholderHandlers = (definition: WorkflowDefinition) => {
+  const handlers: Required<WorkflowHandlers> = {
+    execute: {},
+    checkCondition: {},
+    compensate: {},
+  };
+  const visit = (node: TaskGroupDefinition | TaskDefinition) => {
+    if ("children" in node) {
+      node.children.forEach(visit);
+      return;
+    }
+    handlers.execute[node.execute] = async () => {};
+    if (node.checkCondition) {
+      handlers.checkCondition[node.checkCondition] = async () => true;
+    }
+    if (node.compensate) {
+      handlers.compensate[node.compensate] = async () => {};
+    }
+  };
+  definition.groups.forEach(visit);
+  return handlers;
+};
+
+const printGraph = async (
+  workflowPath: string,
+  options: CommandOptions,
+  io: CliIO
+) => {
+  const format = options.format || "text";
+  if (!["text", "mermaid", "dot"].includes(format)) {
+    throw new UsageError(`Unknown graph format "${format}"`);
+  }
+
+  const definition = await readWorkflowFile(workflowPath);
+  if (format === "text") {
+    io.stdout.write(formatGraph(definition));
+    return EXIT_CODES.success;
+  }
+
+  const flowControl = buildFlow(definition, placeholderHandlers(definition));
+  let state: SerializedState | undefined;
+  if (options.state !== undefined) {
+    state = await new FileStateStore(options.state).load();
+    if (!state) {
+      throw new WorkflowSchemaError([
+        { path: options.state, message: "No saved state found" },
+      ]);
+    }
+  }
+
+  const diagramOptions = {
+    showState: state !== undefined,
+    showDurations: state !== undefined,
+    state,
+  };
+  io.stdout.write(
+    format === "mermaid"
+      ? toMermaid(flowControl, diagramOptions)
+      : toDot(flowControl, diagramOptions)
+  );
+  return EXIT_CODES.success;
+};
+
+/**
+ * Runs the `flow-like-water` command.
+ *
+ * @param {string[]} argv - The arguments after the executable, e.g. `process.argv.slice(2)`.
+ * @param {CliIO} [io=process] - Where to write the output.
+ * @returns {Promise<number>} The exit code, one of `EXIT_CODES`.
+ *
+ * @example
+ * // flow-like-water run workflow.yaml --handlers ./handlers.js --state state.json
+ * process.exitCode = await main(process.argv.slice(2));
+ */
+export const main = async (
+  argv: string[],
+  io: CliIO = process
+): Promise<number> => {
+  try {
+    const { values, positionals } = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        handlers: { type: "string" },
+        state: { type: "string" },
+        input: { type: "string", multiple: true },
+        format: { type: "string" },
+        help: { type: "boolean", short: "h" },
+      },
+    });
+    const [command, workflowPath] = positionals;
+
+    if (values.help) {
+      io.stdout.write(USAGE);
+      return EXIT_CODES.success;
+    }
+
+    const requireWorkflow = () => {
+      if (workflowPath === undefined) {
+        throw new UsageError(`The ${command} command expects a workflow file`);
+      }
+      return workflowPath;
+    };
+
+    switch (command) {
+      case "run":
+        return await runWorkflow(requireWorkflow(), values, io, false);
+      case "resume":
+        return await runWorkflow(requireWorkflow(), values, io, true);
+      case "status":
+        return await printStatus(values, io);
+      case "validate":
+        return await validate(requireWorkflow(), values, io);
+      case "graph":
+        return await printGraph(requireWorkflow(), values, io);
+      case undefined:
+        throw new UsageError("Missing command");
+      default:
+        throw new UsageError(`Unknown command "${command}"`);
+    }
+  } catch (error) {
+    if (
+      error instanceof UsageError ||
+      errorCode(error)?.startsWith("ERR_PARSE_ARGS")
+    ) {
+      io.stderr.write(`${errorMessage(error)}\n\n${USAGE}`);
+      return EXIT_CODES.usage;
+    }
+    io.stderr.write(`${errorMessage(error)}\n`);
+    // Missing files are reported like invalid ones
+    return error instanceof WorkflowSchemaError ||
+      error instanceof StateSchemaError ||
+      errorCode(error) === "ENOENT"
+      ? EXIT_CODES.invalid
+      : EXIT_CODES.failed;
+  }
+};
+
+if (require.main === module) {
+  main(process.argv.slice(2))
+    .then((code) => {
+      process.exitCode = code;
+    })
+    .catch((error) => {
+      process.stderr.write(`${errorMessage(error)}\n`);
+      process.exitCode = EXIT_CODES.failed;
+    });
+}
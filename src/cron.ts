@@ -0,0 +1,232 @@
+type CronField = {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+};
+
+const FIELDS: CronField[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  {
+    name: "month",
+    min: 1,
+    max: 12,
+    names: [
+      "JAN",
+      "FEB",
+      "MAR",
+      "APR",
+      "MAY",
+      "JUN",
+      "JUL",
+      "AUG",
+      "SEP",
+      "OCT",
+      "NOV",
+      "DEC",
+    ],
+  },
+  {
+    name: "day of week",
+    min: 0,
+    max: 7,
+    names: ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"],
+  },
+];
+
+const MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+const MINUTE = 60 * 1000;
+
+// Impossible expressions such as `0 0 30 2 *` give up after a full leap year cycle
+const MAX_YEARS_AHEAD = 8;
+
+type DateParts = {
+  year: number;
+  month: number;
+  day: number;
+  weekday: number;
+  hour: number;
+  minute: number;
+};
+
+/**
+ * A standard five-field cron expression: minute, hour, day of month, month and
+ * day of week.
+ *
+ * Fields accept `*`, numbers, ranges (`1-5`), steps (`*\/15`, `10-50/20`) and
+ * lists of those (`0,30`). Months and days of the week may also be given by
+ * their three-letter English names, and both 0 and 7 stand for Sunday. When
+ * both the day of the month and the day of the week are restricted, that is do
+ * not start with `*`, a day matching either one matches, as with cron. The
+ * macros `@yearly`, `@monthly`, `@weekly`, `@daily` and `@hourly` are supported
+ * too.
+ *
+ * @param {string} source - The cron expression.
+ * @param {Object} [options] - How to read the expression.
+ * @param {boolean} [options.utc=false] - Read the expression in UTC instead of the local time zone.
+ * @throws {Error} Throws an error if the expression is invalid.
+ *
+ * @example
+ * // Every weekday at 02:30
+ * new CronExpression('30 2 * * MON-FRI').next(Date.now());
+ */
+export class CronExpression {
+  source: string;
+  utc: boolean;
+  private fields: Set<number>[];
+  private restrictedDays: boolean;
+
+  constructor(source: string, options: { utc?: boolean } = {}) {
+    this.source = source;
+    this.utc = options.utc || false;
+
+    const expanded = MACROS[source.trim().toLowerCase()] || source;
+    const parts = expanded.trim().split(/\s+/);
+    if (parts.length !== FIELDS.length) {
+      throw this.invalid(`expected ${FIELDS.length} fields`);
+    }
+    this.fields = parts.map((part, index) =>
+      this.parseField(part, FIELDS[index])
+    );
+    // Sunday can be written as 0 or 7
+    if (this.fields[4].delete(7)) {
+      this.fields[4].add(0);
+    }
+    // As with Vixie cron, a field starting with `*`, such as `*/2`, is not a restriction
+    this.restrictedDays =
+      !parts[2].startsWith("*") && !parts[4].startsWith("*");
+  }
+
+  /**
+   * Computes the first time matching the expression after a given time.
+   *
+   * @param {number} after - The timestamp in milliseconds to start from, excluded.
+   * @returns {number | undefined} The timestamp of the next match, or undefined if there is none
+   *                               within the next eight years.
+   */
+  next(after: number): number | undefined {
+    const [minutes, hours, , months] = this.fields;
+    const lastYear = this.parts(after).year + MAX_YEARS_AHEAD;
+    let time = Math.floor(after / MINUTE) * MINUTE + MINUTE;
+
+    // Every step moves forward to the start of the next candidate month, day, hour or minute
+    const moveTo = (target: number) => {
+      time = target > time ? target : time + MINUTE;
+    };
+    for (;;) {
+      const date = this.parts(time);
+      if (date.year > lastYear) {
+        return undefined;
+      }
+      if (!months.has(date.month)) {
+        moveTo(this.build(date.year, date.month + 1, 1, 0, 0));
+      } else if (!this.matchesDay(date)) {
+        moveTo(this.build(date.year, date.month, date.day + 1, 0, 0));
+      } else if (!hours.has(date.hour)) {
+        moveTo(this.build(date.year, date.month, date.day, date.hour + 1, 0));
+      } else if (!minutes.has(date.minute)) {
+        time += MINUTE;
+      } else {
+        return time;
+      }
+    }
+  }
+
+  private matchesDay(date: DateParts) {
+    const daysOfMonth = this.fields[2];
+    const daysOfWeek = this.fields[4];
+    if (this.restrictedDays) {
+      return daysOfMonth.has(date.day) || daysOfWeek.has(date.weekday);
+    }
+    return daysOfMonth.has(date.day) && daysOfWeek.has(date.weekday);
+  }
+
+  private parts(time: number): DateParts {
+    const date = new Date(time);
+    return this.utc
+      ? {
+          year: date.getUTCFullYear(),
+          month: date.getUTCMonth() + 1,
+          day: date.getUTCDate(),
+          weekday: date.getUTCDay(),
+          hour: date.getUTCHours(),
+          minute: date.getUTCMinutes(),
+        }
+      : {
+          year: date.getFullYear(),
+          month: date.getMonth() + 1,
+          day: date.getDate(),
+          weekday: date.getDay(),
+          hour: date.getHours(),
+          minute: date.getMinutes(),
+        };
+  }
+
+  // Out of range values roll over, e.g. month 13 is January of the next year
+  private build(
+    year: number,
+    month: number,
+    day: number,
+    hour: number,
+    minute: number
+  ) {
+    return this.utc
+      ? Date.UTC(year, month - 1, day, hour, minute)
+      : new Date(year, month - 1, day, hour, minute).getTime();
+  }
+
+  private parseField(source: string, field: CronField) {
+    const values = new Set<number>();
+    const parseValue = (value: string) => {
+      const named = field.names?.indexOf(value.toUpperCase()) ?? -1;
+      const number =
+        named !== -1 ? named + field.min : /^\d+$/.test(value) ? +value : NaN;
+      if (!(number >= field.min && number <= field.max)) {
+        throw this.invalid(`invalid ${field.name} "${value}"`);
+      }
+      return number;
+    };
+
+    source.split(",").forEach((part) => {
+      const [range, step, ...rest] = part.split("/");
+      const increment = step === undefined ? 1 : Number(step);
+      if (rest.length > 0 || !Number.isInteger(increment) || increment < 1) {
+        throw this.invalid(`invalid step in ${field.name} "${part}"`);
+      }
+
+      let start = field.min;
+      let end = field.max;
+      if (range !== "*") {
+        const [from, to, ...others] = range.split("-");
+        if (others.length > 0) {
+          throw this.invalid(`invalid range in ${field.name} "${part}"`);
+        }
+        start = parseValue(from);
+        // A single value with a step, like `5/15`, runs to the end of the range
+        end = to !== undefined ? parseValue(to) : step ? field.max : start;
+      }
+      if (start > end) {
+        throw this.invalid(`invalid range in ${field.name} "${part}"`);
+      }
+      for (let value = start; value <= end; value += increment) {
+        values.add(value);
+      }
+    });
+    return values;
+  }
+
+  private invalid(message: string) {
+    return new Error(`Invalid cron expression "${this.source}": ${message}`);
+  }
+}
@@ -0,0 +1,221 @@
+import type {
+  FlowControl,
+  SerializedData,
+  SerializedState,
+  TaskGroupState,
+} from "./index";
+
+/**
+ * Options for `toMermaid()` and `toDot()`.
+ *
+ * @property {boolean} [showState=false] - Color every task and group by its current state.
+ * @property {boolean} [showDurations=false] - Add the time taken by every task and group to its label.
+ * @property {"TB" | "LR"} [direction="TB"] - Lay the diagram out top to bottom or left to right.
+ * @property {SerializedState} [state] - A snapshot to take states and durations from instead of the
+ *                                       flow's current state, e.g. one loaded from a state store.
+ */
+export type DiagramOptions = {
+  showState?: boolean;
+  showDurations?: boolean;
+  direction?: "TB" | "LR";
+  state?: SerializedState;
+};
+
+// Fill and border colors for every state
+const STATE_COLORS: Record<TaskGroupState, [string, string]> = {
+  not_started: ["#ffffff", "#9e9e9e"],
+  waiting: ["#fff9c4", "#9e9e9e"],
+  in_progress: ["#bbdefb", "#1565c0"],
+  completed: ["#c8e6c9", "#2e7d32"],
+  failed: ["#ffcdd2", "#c62828"],
+  skipped: ["#eeeeee", "#757575"],
+  cancelled: ["#ffe0b2", "#ef6c00"],
+  timed_out: ["#ffe0b2", "#ef6c00"],
+  paused: ["#fff9c4", "#f9a825"],
+  partially_failed: ["#ffe0b2", "#c62828"],
+  compensating: ["#e1bee7", "#6a1b9a"],
+  compensated: ["#e1bee7", "#6a1b9a"],
+  compensation_failed: ["#ffcdd2", "#6a1b9a"],
+};
+
+type DiagramNode = {
+  key: string;
+  id: string;
+  data: SerializedData;
+  children: DiagramNode[];
+};
+
+/**
+ * Collects the groups and tasks of a flow with generated diagram identifiers,
+ * since task ids may contain characters the diagram languages do not allow.
+ */
+const collect = (flowControl: FlowControl, snapshot?: SerializedState) => {
+  const keys = new Map<string, string>();
+  let groupCount = 0;
+  const visit = (
+    state: SerializedState,
+    saved?: SerializedState
+  ): DiagramNode[] =>
+    Object.keys(state).map((id) => {
+      const data = { ...state[id], ...saved?.[id] };
+      if (data.type === "task-group") {
+        return {
+          key: `group${groupCount++}`,
+          id,
+          data,
+          children: visit(state[id].children || {}, saved?.[id]?.children),
+        };
+      }
+      // Edges name tasks by id, so they would be ambiguous
+      if (keys.has(id)) {
+        throw new Error(`Duplicate task id ${id}`);
+      }
+      const key = `task${keys.size}`;
+      keys.set(id, key);
+      return { key, id, data, children: [] };
+    });
+
+  const nodes = visit(flowControl.getSerializedState(), snapshot);
+  const graph = flowControl.getDependencyGraph();
+  const edges: Array<[string, string]> = [];
+  graph.getNodes().forEach((from) => {
+    graph.successors(from).forEach((to) => {
+      edges.push([keys.get(from)!, keys.get(to)!]);
+    });
+  });
+  return { nodes, edges };
+};
+
+const formatDuration = (time: number) =>
+  time < 1000 ? `${time}ms` : `${(time / 1000).toFixed(1)}s`;
+
+const labelLines = (node: DiagramNode, options: DiagramOptions) => {
+  const lines = [node.id];
+  if (options.showDurations && node.data.time > 0) {
+    lines.push(formatDuration(node.data.time));
+  }
+  return lines;
+};
+
+/**
+ * Exports the structure of a flow as a Mermaid flowchart.
+ *
+ * Task groups become subgraphs, tasks become nodes and every `nextTasks` and
+ * `dependsOn` declaration becomes an edge.
+ *
+ * @param {FlowControl} flowControl - The flow to export.
+ * @param {DiagramOptions} [options] - What to show in the diagram.
+ * @returns {string} The Mermaid source of the flowchart.
+ * @throws {Error} Throws an error if a task references a task id that does not exist, or if
+ *                 several tasks share an id.
+ *
+ * @example
+ * fs.writeFileSync('flow.mmd', toMermaid(flowControl, { showState: true }));
+ */
+export const toMermaid = (
+  flowControl: FlowControl,
+  options: DiagramOptions = {}
+) => {
+  const { nodes, edges } = collect(flowControl, options.state);
+  const lines = [`flowchart ${options.direction || "TB"}`];
+  const classes = new Map<TaskGroupState, string[]>();
+  const label = (node: DiagramNode) =>
+    labelLines(node, options)
+      .map((line) =>
+        line
+          .replace(/&/g, "#amp;")
+          .replace(/"/g, "#quot;")
+          .replace(/</g, "#lt;")
+          .replace(/>/g, "#gt;")
+      )
+      .join("<br/>");
+
+  const visit = (node: DiagramNode, depth: number) => {
+    const indent = "  ".repeat(depth);
+    classes.set(node.data.state, [
+      ...(classes.get(node.data.state) || []),
+      node.key,
+    ]);
+    if (node.data.type === "task-group") {
+      lines.push(`${indent}subgraph ${node.key}["${label(node)}"]`);
+      node.children.forEach((child) => visit(child, depth + 1));
+      lines.push(`${indent}end`);
+    } else {
+      lines.push(`${indent}${node.key}["${label(node)}"]`);
+    }
+  };
+  nodes.forEach((node) => visit(node, 1));
+  edges.forEach(([from, to]) => lines.push(`  ${from} --> ${to}`));
+
+  if (options.showState) {
+    classes.forEach((keys, state) => {
+      const [fill, stroke] = STATE_COLORS[state];
+      lines.push(`  classDef ${state} fill:${fill},stroke:${stroke}`);
+      lines.push(`  class ${keys.join(",")} ${state}`);
+    });
+  }
+  return `${lines.join("\n")}\n`;
+};
+
+/**
+ * Exports the structure of a flow as a Graphviz DOT digraph.
+ *
+ * Task groups become clusters, tasks become nodes and every `nextTasks` and
+ * `dependsOn` declaration becomes an edge.
+ *
+ * @param {FlowControl} flowControl - The flow to export.
+ * @param {DiagramOptions} [options] - What to show in the diagram.
+ * @returns {string} The DOT source of the digraph.
+ * @throws {Error} Throws an error if a task references a task id that does not exist, or if
+ *                 several tasks share an id.
+ *
+ * @example
+ * fs.writeFileSync('flow.dot', toDot(flowControl, { showDurations: true }));
+ */
+export const toDot = (
+  flowControl: FlowControl,
+  options: DiagramOptions = {}
+) => {
+  const { nodes, edges } = collect(flowControl, options.state);
+  const lines = [
+    "digraph flow {",
+    `  rankdir=${options.direction || "TB"};`,
+    '  node [shape=box, style="rounded,filled", fillcolor="#ffffff"];',
+  ];
+  const label = (node: DiagramNode) =>
+    labelLines(node, options)
+      .map((line) => line.replace(/\\/g, "\\\\").replace(/"/g, '\\"'))
+      .join("\\n");
+  const colors = (node: DiagramNode) => {
+    if (!options.showState) {
+      return "";
+    }
+    const [fill, stroke] = STATE_COLORS[node.data.state];
+    return `, fillcolor="${fill}", color="${stroke}"`;
+  };
+
+  const visit = (node: DiagramNode, depth: number) => {
+    const indent = "  ".repeat(depth);
+    if (node.data.type === "task-group") {
+      lines.push(`${indent}subgraph cluster_${node.key} {`);
+      lines.push(`${indent}  label="${label(node)}";`);
+      if (options.showState) {
+        const [fill, stroke] = STATE_COLORS[node.data.state];
+        lines.push(
+          `${indent}  style=filled; fillcolor="${fill}"; color="${stroke}";`
+        );
+      }
+      node.children.forEach((child) => visit(child, depth + 1));
+      lines.push(`${indent}}`);
+    } else {
+      lines.push(
+        `${indent}${node.key} [label="${label(node)}"${colors(node)}];`
+      );
+    }
+  };
+  nodes.forEach((node) => visit(node, 1));
+  edges.forEach(([from, to]) => lines.push(`  ${from} -> ${to};`));
+
+  lines.push("}");
+  return `${lines.join("\n")}\n`;
+};
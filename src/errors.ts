@@ -0,0 +1,160 @@
+/**
+ * The error used to abort a flow when it is cancelled without a specific reason.
+ *
+ * `FlowControl.run()` rejects with this error after `flow.cancel()` has been
+ * called, and it is passed to tasks as the reason of their `AbortSignal`.
+ *
+ * @example
+ * try {
+ *   await flowControl.run();
+ * } catch (error) {
+ *   if (error instanceof CancelledError) {
+ *     console.log('The flow was cancelled');
+ *   }
+ * }
+ */
+export class CancelledError extends Error {
+  constructor(message = "The flow was cancelled") {
+    super(message);
+    this.name = "CancelledError";
+  }
+}
+
+/**
+ * The error used when a task attempt exceeds its `timeout` or a flow run
+ * exceeds its `deadline`.
+ *
+ * @example
+ * try {
+ *   await flowControl.run({ deadline: 60000 });
+ * } catch (error) {
+ *   if (error instanceof TimeoutError) {
+ *     console.log('The flow took longer than a minute');
+ *   }
+ * }
+ */
+export class TimeoutError extends Error {
+  constructor(message = "The operation timed out") {
+    super(message);
+    this.name = "TimeoutError";
+  }
+}
+
+/**
+ * A problem found in a workflow definition, with the path of the offending value.
+ *
+ * @property {string} path - The location of the value, e.g. `$.groups[0].children[1].retries`.
+ * @property {string} message - What is wrong with the value.
+ */
+export type SchemaIssue = {
+  path: string;
+  message: string;
+};
+
+/**
+ * The error thrown when a workflow definition does not match the schema.
+ *
+ * Every problem found in the document is listed in `issues`, so all of them can
+ * be fixed at once.
+ *
+ * @example
+ * try {
+ *   loadWorkflow(source, handlers);
+ * } catch (error) {
+ *   if (error instanceof WorkflowSchemaError) {
+ *     error.issues.forEach(({ path, message }) => console.log(`${path}: ${message}`));
+ *   }
+ * }
+ */
+export class WorkflowSchemaError extends Error {
+  issues: SchemaIssue[];
+
+  constructor(issues: SchemaIssue[]) {
+    super(
+      `Invalid workflow definition:\n${issues
+        .map(({ path, message }) => `  ${path}: ${message}`)
+        .join("\n")}`
+    );
+    this.name = "WorkflowSchemaError";
+    this.issues = issues;
+  }
+}
+
+/**
+ * The error thrown when a saved state does not match the serialized state schema.
+ *
+ * Every problem found in the state is listed in `issues`, like for `WorkflowSchemaError`.
+ *
+ * @example
+ * try {
+ *   const state = await new FileStateStore('./flow-state.json').load();
+ * } catch (error) {
+ *   if (error instanceof StateSchemaError) {
+ *     console.log(error.issues);
+ *   }
+ * }
+ */
+export class StateSchemaError extends Error {
+  issues: SchemaIssue[];
+
+  constructor(issues: SchemaIssue[]) {
+    super(
+      `Invalid serialized state:\n${issues
+        .map(({ path, message }) => `  ${path}: ${message}`)
+        .join("\n")}`
+    );
+    this.name = "StateSchemaError";
+    this.issues = issues;
+  }
+}
+
+/**
+ * A problem found by `FlowControl.validate()` in the tasks and groups of a flow.
+ *
+ * - `duplicate_id`: several tasks or task groups share an id.
+ * - `unknown_reference`: a task refers to a task or resource that does not exist.
+ * - `dependency_cycle`: the `nextTasks` and `dependsOn` declarations form a cycle.
+ * - `empty_group`: a task group has no children.
+ * - `invalid_option`: a task option has an invalid value, such as negative `retries`.
+ *
+ * @property {string} path - The location of the offending task or group, e.g. `$["Provision"].children["Setup"].retries`.
+ * @property {string} message - What is wrong.
+ * @property {string} code - The kind of problem, one of the codes above.
+ * @property {"error" | "warning"} severity - Errors would make a run fail or misbehave, warnings are suspicious.
+ */
+export type FlowDiagnostic = SchemaIssue & {
+  code:
+    | "duplicate_id"
+    | "unknown_reference"
+    | "dependency_cycle"
+    | "empty_group"
+    | "invalid_option";
+  severity: "error" | "warning";
+};
+
+/**
+ * The error a run rejects with when the flow is validated first and has errors,
+ * see the `validate` option of `FlowControl`.
+ *
+ * @example
+ * try {
+ *   await flowControl.run();
+ * } catch (error) {
+ *   if (error instanceof FlowValidationError) {
+ *     error.diagnostics.forEach(({ path, message }) => console.log(`${path}: ${message}`));
+ *   }
+ * }
+ */
+export class FlowValidationError extends Error {
+  diagnostics: FlowDiagnostic[];
+
+  constructor(diagnostics: FlowDiagnostic[]) {
+    super(
+      `Invalid flow:\n${diagnostics
+        .map(({ path, message }) => `  ${path}: ${message}`)
+        .join("\n")}`
+    );
+    this.name = "FlowValidationError";
+    this.diagnostics = diagnostics;
+  }
+}
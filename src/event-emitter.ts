@@ -1,28 +1,124 @@
-class EventEmitter {
+// Maps every event name to the tuple of arguments its listeners receive
+export type EventMap = Record<string, any[]>;
+
+export type Listener<Args extends any[]> = (...args: Args) => unknown;
+
+// Listeners registered with `once` are wrapped, the wrapper remembers the original for `off`
+type StoredListener = Function & { listener?: Function };
+
+// Called with the errors of listeners, along with the event they were listening to
+export type ListenerErrorHandler = (error: unknown, event: PropertyKey) => void;
+
+export type EventEmitterOptions = {
+    onListenerError?: ListenerErrorHandler;
+};
+
+const isPromiseLike = (value: unknown): value is PromiseLike<unknown> =>
+    typeof value === "object" && value !== null && "then" in value && typeof value.then === "function";
+
+class EventEmitter<Events extends EventMap = Record<string, any[]>> {
     // This map holds the events and their listeners
-    private events: Map<string, Array<Function>>;
+    private events: Map<keyof Events, Array<StoredListener>>;
+    private onListenerError?: ListenerErrorHandler;
 
-    constructor() {
+    constructor(options: EventEmitterOptions = {}) {
         this.events = new Map();
+        this.onListenerError = options.onListenerError;
     }
 
     // Method to add an event listener
-    on(event: string, listener: Function): void {
+    on<E extends keyof Events>(event: E, listener: Listener<Events[E]>): this {
         if (!this.events.has(event)) {
             this.events.set(event, []);
         }
         this.events.get(event)!.push(listener);
+        return this;
+    }
+
+    // Method to add an event listener that is removed after its first call
+    once<E extends keyof Events>(event: E, listener: Listener<Events[E]>): this {
+        const wrapper: StoredListener = (...args: Events[E]) => {
+            this.off(event, listener);
+            return listener(...args);
+        };
+        wrapper.listener = listener;
+        return this.on(event, wrapper as Listener<Events[E]>);
+    }
+
+    // Method to remove an event listener added with `on` or `once`
+    off<E extends keyof Events>(event: E, listener: Listener<Events[E]>): this {
+        const listeners = this.events.get(event);
+        if (listeners) {
+            const index = listeners.findIndex(stored => stored === listener || stored.listener === listener);
+            if (index !== -1) {
+                listeners.splice(index, 1);
+            }
+            if (listeners.length === 0) {
+                this.events.delete(event);
+            }
+        }
+        return this;
     }
 
-    // Method to emit an event
-    emit(event: string, ...args: any[]): void {
+    // Method to remove every listener of an event, or of all events
+    removeAllListeners(event?: keyof Events): this {
+        if (event === undefined) {
+            this.events.clear();
+        } else {
+            this.events.delete(event);
+        }
+        return this;
+    }
+
+    // Method to count the listeners of an event
+    listenerCount(event: keyof Events): number {
+        return this.events.get(event)?.length || 0;
+    }
+
+    // Method to emit an event. Listeners are not awaited, and a listener that throws
+    // or rejects does not prevent the others from being called
+    emit<E extends keyof Events>(event: E, ...args: Events[E]): void {
         const listeners = this.events.get(event);
         if (listeners) {
-            listeners.forEach(listener => {
-                listener(...args);
+            // Copy the listeners so `once` listeners removing themselves do not skip others
+            [...listeners].forEach(listener => {
+                this.invoke(event, listener, args);
             });
         }
     }
+
+    // Method to emit an event and wait for every listener, including asynchronous ones, to settle
+    async emitAsync<E extends keyof Events>(event: E, ...args: Events[E]): Promise<void> {
+        const listeners = [...(this.events.get(event) || [])];
+        await Promise.all(listeners.map(listener => this.invoke(event, listener, args)));
+    }
+
+    private invoke(event: keyof Events, listener: Function, args: any[]): unknown {
+        try {
+            const result = listener(...args);
+            if (isPromiseLike(result)) {
+                return Promise.resolve(result).catch(error => this.handleListenerError(event, error));
+            }
+            return result;
+        } catch (error) {
+            this.handleListenerError(event, error);
+        }
+    }
+
+    // Errors thrown by listeners go to `onListenerError` if given, otherwise to the `error`
+    // listeners. Errors with nowhere to go, including those of a throwing `onListenerError`,
+    // are dropped so one listener never breaks the emitter
+    private handleListenerError(event: keyof Events, error: unknown) {
+        if (this.onListenerError) {
+            try {
+                this.onListenerError(error, event);
+            } catch {
+                // Nothing is left to report the error to
+            }
+        } else if (event !== "error" && this.listenerCount("error") > 0) {
+            this.emit("error", ...([error] as unknown as Events[keyof Events]));
+        }
+    }
 }
 
 export default EventEmitter;
@@ -0,0 +1,63 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import type { SerializedState } from "./index";
+import { createStateDocument, readStateDocument } from "./state-schema";
+import type { StateStore } from "./state-store";
+
+/**
+ * Keeps the latest snapshot in a JSON file.
+ *
+ * The file holds a document with the schema version next to the state, see
+ * `createStateDocument()`. Files holding a bare state, as written by earlier
+ * versions, are read as well. Files that do not match the schema make `load()`
+ * throw a `StateSchemaError`.
+ *
+ * Every snapshot is first written to a temporary file next to the target and then
+ * renamed over it, so a crash halfway through a write never leaves a truncated file.
+ *
+ * @param {string} filePath - The path of the JSON file holding the snapshot.
+ *
+ * @example
+ * const store = new FileStateStore('./flow-state.json');
+ * const flowControl = new FlowControl({ stateStore: store });
+ */
+export class FileStateStore implements StateStore {
+  filePath: string;
+  private writes: number;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    this.writes = 0;
+  }
+
+  async save(state: SerializedState) {
+    const tempPath = path.join(
+      path.dirname(this.filePath),
+      `.${path.basename(this.filePath)}.${process.pid}.${this.writes++}.tmp`
+    );
+
+    try {
+      await fs.writeFile(
+        tempPath,
+        JSON.stringify(createStateDocument(state), null, 2)
+      );
+      await fs.rename(tempPath, this.filePath);
+    } catch (error) {
+      await fs.unlink(tempPath).catch(() => {});
+      throw error;
+    }
+  }
+
+  async load(): Promise<SerializedState | undefined> {
+    try {
+      return readStateDocument(
+        JSON.parse(await fs.readFile(this.filePath, "utf8"))
+      );
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+}
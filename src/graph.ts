@@ -0,0 +1,157 @@
+/**
+ * A directed graph of dependencies between identifiers.
+ *
+ * An edge from `a` to `b` means that `a` has to finish before `b` can start.
+ * The graph is used by `FlowControl` to schedule tasks according to their
+ * `nextTasks` and `dependsOn` declarations, but it knows nothing about tasks
+ * itself and only deals in identifiers.
+ *
+ * @example
+ * const graph = new DependencyGraph();
+ * graph.addNode('build');
+ * graph.addNode('deploy');
+ * graph.addEdge('build', 'deploy');
+ * graph.successors('build'); // ['deploy']
+ */
+export class DependencyGraph {
+  private edges: Map<string, Set<string>>;
+  private reverseEdges: Map<string, Set<string>>;
+
+  constructor() {
+    this.edges = new Map();
+    this.reverseEdges = new Map();
+  }
+
+  /**
+   * Adds a node to the graph. Adding an existing node has no effect.
+   *
+   * @param {string} id - The identifier of the node.
+   */
+  addNode(id: string) {
+    if (!this.edges.has(id)) {
+      this.edges.set(id, new Set());
+      this.reverseEdges.set(id, new Set());
+    }
+  }
+
+  /**
+   * Checks whether a node is part of the graph.
+   *
+   * @param {string} id - The identifier of the node.
+   * @returns {boolean} True if the node has been added.
+   */
+  hasNode(id: string) {
+    return this.edges.has(id);
+  }
+
+  /**
+   * Adds an edge stating that `from` has to finish before `to` can start.
+   *
+   * @param {string} from - The identifier of the predecessor.
+   * @param {string} to - The identifier of the successor.
+   * @throws {Error} Throws an error if either node has not been added to the graph.
+   */
+  addEdge(from: string, to: string) {
+    if (!this.hasNode(from) || !this.hasNode(to)) {
+      throw new Error(`Unknown node in edge ${from} -> ${to}`);
+    }
+    this.edges.get(from)!.add(to);
+    this.reverseEdges.get(to)!.add(from);
+  }
+
+  /**
+   * Retrieves all nodes in insertion order.
+   *
+   * @returns {string[]} The identifiers of every node.
+   */
+  getNodes() {
+    return Array.from(this.edges.keys());
+  }
+
+  /**
+   * Retrieves the nodes that directly depend on the given node.
+   *
+   * @param {string} id - The identifier of the node.
+   * @returns {string[]} The identifiers of the direct successors.
+   */
+  successors(id: string) {
+    return Array.from(this.edges.get(id) || []);
+  }
+
+  /**
+   * Retrieves the nodes the given node directly depends on.
+   *
+   * @param {string} id - The identifier of the node.
+   * @returns {string[]} The identifiers of the direct predecessors.
+   */
+  predecessors(id: string) {
+    return Array.from(this.reverseEdges.get(id) || []);
+  }
+
+  /**
+   * Retrieves every node reachable from the given node, excluding the node itself.
+   *
+   * @param {string} id - The identifier of the node.
+   * @returns {string[]} The identifiers of all transitive successors.
+   */
+  descendants(id: string) {
+    const visited = new Set<string>();
+    const stack = this.successors(id);
+    while (stack.length > 0) {
+      const next = stack.pop()!;
+      if (!visited.has(next)) {
+        visited.add(next);
+        stack.push(...this.successors(next));
+      }
+    }
+    visited.delete(id);
+    return Array.from(visited);
+  }
+
+  /**
+   * Looks for a cycle in the graph.
+   *
+   * @returns {string[] | undefined} The nodes forming the first cycle found, starting and
+   *                                 ending with the same node, or undefined if the graph is acyclic.
+   *
+   * @example
+   * graph.findCycle(); // ['a', 'b', 'a']
+   */
+  findCycle(): string[] | undefined {
+    const visited = new Set<string>();
+    const path: string[] = [];
+    const onPath = new Set<string>();
+
+    const visit = (id: string): string[] | undefined => {
+      visited.add(id);
+      onPath.add(id);
+      path.push(id);
+
+      for (const next of this.successors(id)) {
+        if (onPath.has(next)) {
+          return [...path.slice(path.indexOf(next)), next];
+        }
+        if (!visited.has(next)) {
+          const cycle = visit(next);
+          if (cycle) {
+            return cycle;
+          }
+        }
+      }
+
+      onPath.delete(id);
+      path.pop();
+      return undefined;
+    };
+
+    for (const id of this.getNodes()) {
+      if (!visited.has(id)) {
+        const cycle = visit(id);
+        if (cycle) {
+          return cycle;
+        }
+      }
+    }
+    return undefined;
+  }
+}
@@ -1,16 +1,229 @@
-import EventEmitter from "./event-emitter";
-import { wait } from "./util";
+import EventEmitter, { ListenerErrorHandler } from "./event-emitter";
+import {
+  CancelledError,
+  FlowDiagnostic,
+  FlowValidationError,
+  TimeoutError,
+} from "./errors";
+import { DependencyGraph } from "./graph";
+import { defaultShouldRetry, FixedBackoff, RetryPolicy } from "./retry-policy";
+import { ExecutionPlan, PlanEdge, PlanStep } from "./plan";
+import { Resource, ResourceOptions } from "./resources";
+import { StateStore } from "./state-store";
+import { Span, Tracer } from "./tracing";
+import {
+  linkAbortController,
+  raceSignal,
+  runWithConcurrency,
+  serializeError,
+  wait,
+} from "./util";
+
+export { default as EventEmitter } from "./event-emitter";
+export type {
+  EventEmitterOptions,
+  EventMap,
+  Listener,
+  ListenerErrorHandler,
+} from "./event-emitter";
+export {
+  CancelledError,
+  TimeoutError,
+  WorkflowSchemaError,
+  StateSchemaError,
+  FlowValidationError,
+} from "./errors";
+export type { FlowDiagnostic, SchemaIssue } from "./errors";
+export { DependencyGraph } from "./graph";
+export * from "./retry-policy";
+export * from "./state-store";
+export * from "./state-schema";
+export * from "./progress-renderer";
+export * from "./diagram";
+export * from "./plan";
+export * from "./cron";
+export * from "./schedule";
+export * from "./resources";
+export * from "./tracing";
 
 export type TaskState =
   | "not_started"
+  | "waiting"
   | "completed"
   | "in_progress"
   | "failed"
-  | "skipped";
+  | "skipped"
+  | "cancelled"
+  | "timed_out"
+  | "compensating"
+  | "compensated"
+  | "compensation_failed";
 
 type TaskId = string;
 type TaskGroupId = string;
 
+/**
+ * The context handed to `Task.execute` on every attempt.
+ *
+ * @property {AbortSignal} signal - Aborted when the flow running the task is cancelled or when the
+ *                                  attempt times out. Long running tasks should observe it and stop
+ *                                  their work.
+ * @property {TaskId} taskId - The identifier of the task being executed.
+ * @property {number} attempt - The number of the current attempt, starting at 1.
+ * @property {Inputs} inputs - The inputs passed to `FlowControl.run()`.
+ * @property {ReadonlyMap<TaskId, unknown>} outputs - The outputs of the tasks that completed so far, by task id.
+ * @property {Map<string, unknown>} scratch - A store shared by every task of the run for any other data.
+ */
+export type TaskExecutionContext<Inputs = Record<string, unknown>> = {
+  signal: AbortSignal;
+  taskId: TaskId;
+  attempt: number;
+  inputs: Inputs;
+  outputs: ReadonlyMap<TaskId, unknown>;
+  scratch: Map<string, unknown>;
+};
+
+/**
+ * The context handed to `Task.guard` before the task runs, and when a run is
+ * planned.
+ *
+ * @property {TaskId} taskId - The identifier of the task being guarded.
+ * @property {Inputs} inputs - The inputs passed to `FlowControl.run()` or `FlowControl.plan()`.
+ * @property {ReadonlyMap<TaskId, unknown>} outputs - The outputs of the tasks that completed so far. When
+ *                                                    planning, only those completed by an earlier run.
+ */
+export type TaskGuardContext<Inputs = Record<string, unknown>> = {
+  taskId: TaskId;
+  inputs: Inputs;
+  outputs: ReadonlyMap<TaskId, unknown>;
+};
+
+/**
+ * The context handed to `Task.compensate` when a flow is rolled back.
+ *
+ * @property {AbortSignal} signal - Aborted when the rollback is cancelled.
+ * @property {TaskId} taskId - The identifier of the task being compensated.
+ * @property {unknown} output - The output the task completed with.
+ * @property {Inputs} inputs - The inputs passed to `FlowControl.run()`.
+ * @property {ReadonlyMap<TaskId, unknown>} outputs - The outputs of the tasks that completed during the run.
+ * @property {Map<string, unknown>} scratch - The scratch store of the run.
+ */
+export type TaskCompensationContext<Inputs = Record<string, unknown>> = {
+  signal: AbortSignal;
+  taskId: TaskId;
+  output: unknown;
+  inputs: Inputs;
+  outputs: ReadonlyMap<TaskId, unknown>;
+  scratch: Map<string, unknown>;
+};
+
+/**
+ * How far a jump may reach.
+ *
+ * - `group` skips to a task or group later in the same task group, and never
+ *   leaves that group.
+ * - `flow` goes to a task or group anywhere later in the flow, skipping
+ *   everything in between, across group boundaries.
+ */
+export type JumpScope = "group" | "flow";
+
+/**
+ * A jump to a task or task group, returned by a task as `next`.
+ *
+ * Jumps only go forward: the target has to come after the task, in the order the
+ * `groups` scheduler walks the flow. Tasks in a parallel group run side by side,
+ * so their jumps apply once the whole group has settled and target what comes
+ * after it.
+ *
+ * @property {TaskId | TaskGroupId} target - The id of the task or task group to continue with.
+ * @property {JumpScope} [scope="flow"] - Whether the target has to be in the same task group.
+ */
+export type JumpDirective = {
+  target: TaskId | TaskGroupId;
+  scope?: JumpScope;
+};
+
+/**
+ * What `Task.execute` may resolve to in order to hand data to later tasks.
+ *
+ * Returning a plain task or task group id is a shorthand for `{ next: id }`,
+ * which jumps with the `flow` scope.
+ *
+ * @property {unknown} [output] - The output of the task, made available to later tasks through `context.outputs`.
+ * @property {TaskId | TaskGroupId | JumpDirective} [next] - The task or task group to jump to next, skipping
+ *                                                          the tasks in between.
+ */
+export type TaskResult<Output = unknown> = {
+  output?: Output;
+  next?: TaskId | TaskGroupId | JumpDirective;
+};
+
+/**
+ * A jump that has not reached its target yet.
+ */
+type PendingJump = {
+  target: TaskId | TaskGroupId;
+  from: TaskId;
+};
+
+/**
+ * Options for a single `Task.run()` call. `FlowControl` fills these in for every task it runs.
+ *
+ * @property {AbortSignal} [signal] - A signal that cancels the task.
+ * @property {Function} [onRetry] - A callback invoked with a `TaskRetry` before each retry.
+ * @property {Function} [beforeRetry] - A callback awaited right before each retry, once its delay has
+ *                                      passed. If it rejects, the task is not retried.
+ * @property {Record<string, unknown>} [inputs] - The inputs of the run, defaults to an empty object.
+ * @property {ReadonlyMap<TaskId, unknown>} [outputs] - The outputs of the tasks completed so far.
+ * @property {Map<string, unknown>} [scratch] - The scratch store shared by the tasks of the run.
+ */
+export type TaskRunOptions = {
+  signal?: AbortSignal;
+  onRetry?: (retry: TaskRetry) => void | Promise<void>;
+  beforeRetry?: (retry: TaskRetry) => void | Promise<void>;
+  inputs?: Record<string, unknown>;
+  outputs?: ReadonlyMap<TaskId, unknown>;
+  scratch?: Map<string, unknown>;
+};
+
+/**
+ * A record of a single attempt at running a task.
+ *
+ * @property {number} attempt - The attempt number, starting at 1.
+ * @property {number} startTime - The timestamp at which the attempt started.
+ * @property {number} endTime - The timestamp at which the attempt settled.
+ * @property {TaskState} state - The state the attempt ended in.
+ * @property {unknown} [error] - The error thrown by the attempt, if it failed.
+ * @property {number} [delay] - The time waited before the next attempt, if the task was retried.
+ */
+export type TaskAttempt = {
+  attempt: number;
+  startTime: number;
+  endTime: number;
+  state: TaskState;
+  error?: unknown;
+  delay?: number;
+};
+
+/**
+ * Describes a retry that is about to happen after a failed attempt.
+ *
+ * @property {number} attempt - The number of the attempt that failed.
+ * @property {unknown} error - The error thrown by the failed attempt.
+ * @property {number} delay - The time in milliseconds waited before the next attempt.
+ */
+export type TaskRetry = {
+  attempt: number;
+  error: unknown;
+  delay: number;
+};
+
+const GUARD_SKIP_REASON = "Skipped by its guard";
+
+// Tasks interrupted by a timeout end up timed out, any other abort cancels them
+const abortedState = (reason: unknown): TaskState =>
+  reason instanceof TimeoutError ? "timed_out" : "cancelled";
+
 /**
  * Represents a task with execution logic, retry capability, and state management.
  *
@@ -20,22 +233,51 @@ type TaskGroupId = string;
  *
  * @param {Object} options - Configuration options for the task.
  * @param {TaskId} options.id - A unique identifier for the task.
- * @param {Function} options.execute - A function that encapsulates the task's execution logic.
- *                                     Should return a Promise that resolves to `void`, `TaskId`, or `TaskGroupId`.
+ * @param {Function} options.execute - A function that encapsulates the task's execution logic. It receives a
+ *                                     `TaskExecutionContext` and should return a Promise that resolves to `void`,
+ *                                     `TaskId`, `TaskGroupId`, or a `TaskResult` carrying the task's output.
  * @param {Function} options.checkCondition - A function that returns a Promise resolving to a boolean,
  *                                            indicating whether the task is ready to be executed.
+ * @param {Function} [options.guard] - A pre-flight check receiving a `TaskGuardContext`. When it returns
+ *                                     false the task is skipped without calling `execute`, and a run
+ *                                     planned with `FlowControl.plan()` reports it as skipped.
  * @param {TaskId[]} [options.nextTasks] - An optional array of task identifiers for tasks to be executed after this task.
+ * @param {TaskId[]} [options.dependsOn] - An optional array of task identifiers for tasks that have to complete before this task.
  * @param {number} [options.retries=0] - The number of times to retry the task if it fails. Defaults to 0.
  * @param {number} [options.waitTime=1000] - The time in milliseconds to wait before retrying the task. Defaults to 1000ms.
+ * @param {RetryPolicy} [options.retryPolicy] - A policy deciding the number of retries and the wait before each
+ *                                              one. Takes precedence over `retries` and `waitTime`.
+ * @param {Function} [options.shouldRetry] - A predicate receiving the error and the failed attempt number that
+ *                                           decides whether the task is retried. Defaults to `defaultShouldRetry`.
+ * @param {number} [options.timeout] - The maximum time in milliseconds a single attempt may take. An attempt that
+ *                                     takes longer fails with a `TimeoutError` and is retried like any other failure.
+ * @param {number} [options.softTimeout] - The time in milliseconds after which `FlowControl` emits a `taskWarning`
+ *                                         event for a task that is still running. The task is not interrupted.
+ * @param {Function} [options.compensate] - A function undoing the effects of the task. It receives a
+ *                                          `TaskCompensationContext` and is called when a flow that completed
+ *                                          the task is rolled back.
+ * @param {string[]} [options.resources] - The names of the shared resources the task holds while it runs, see
+ *                                         `FlowControlOptions.resources`.
  *
  * @property {TaskId} id - The unique identifier of the task.
  * @property {Function} execute - The execution logic of the task.
  * @property {Function} checkCondition - The function to check the precondition for the task execution.
+ * @property {Function} [guard] - The pre-flight check deciding whether the task runs at all.
  * @property {number} retries - The number of retries for the task.
  * @property {number} waitTime - The waiting time before a retry.
+ * @property {RetryPolicy} [retryPolicy] - The policy deciding the retries, if not derived from `retries` and `waitTime`.
+ * @property {Function} [shouldRetry] - The predicate deciding whether an error is retried.
+ * @property {number} [timeout] - The maximum duration of a single attempt.
+ * @property {number} [softTimeout] - The duration after which a warning is emitted for a running task.
+ * @property {Function} [compensate] - The logic undoing the effects of the task.
  * @property {TaskId[]} [nextTasks] - The identifiers of subsequent tasks.
+ * @property {TaskId[]} [dependsOn] - The identifiers of the tasks this task depends on.
+ * @property {string[]} [resources] - The names of the shared resources the task needs.
+ * @property {string[]} [waitingFor] - The resources the task is waiting for while its state is 'waiting'.
  * @property {TaskState} [state] - The current state of the task, e.g., 'not_started', 'completed'.
  * @property {number} [time] - The time taken by the task, updated after execution.
+ * @property {TaskAttempt[]} attempts - The attempts made during the last run of the task.
+ * @property {unknown} [output] - The output of the last successful run of the task.
  *
  * @example
  * // Creating a new Task
@@ -51,33 +293,79 @@ type TaskGroupId = string;
  *   retries: 3,
  *   waitTime: 2000
  * });
+ *
+ * @example
+ * // Handing data to later tasks through the context
+ * const discover = new Task({
+ *   id: 'discover',
+ *   execute: async ({ inputs }) => ({ output: await listNodes(inputs.cluster) }),
+ *   checkCondition: async () => true,
+ * });
+ * const configure = new Task({
+ *   id: 'configure',
+ *   execute: async ({ outputs }) => configureNodes(outputs.get('discover')),
+ *   checkCondition: async () => true,
+ * });
  */
-export class Task {
+export class Task<Inputs = Record<string, unknown>> {
   id: TaskId;
-  execute: () => Promise<void | TaskId | TaskGroupId>;
+  execute: (
+    context: TaskExecutionContext<Inputs>
+  ) => Promise<void | TaskId | TaskGroupId | TaskResult>;
   checkCondition: () => Promise<boolean>;
+  guard?: (context: TaskGuardContext<Inputs>) => boolean | Promise<boolean>;
   retries: number;
   waitTime: number;
+  retryPolicy?: RetryPolicy;
+  shouldRetry?: (error: unknown, attempt: number) => boolean;
+  timeout?: number;
+  softTimeout?: number;
+  compensate?: (context: TaskCompensationContext<Inputs>) => Promise<void>;
   nextTasks?: TaskId[];
+  dependsOn?: TaskId[];
+  resources?: string[];
+  waitingFor?: string[];
   state?: TaskState;
   time?: number;
+  attempts: TaskAttempt[];
+  output?: unknown;
+  skipReason?: string;
 
   constructor(options: {
     id: TaskId;
-    execute: () => Promise<void | TaskId | TaskGroupId>;
+    execute: (
+      context: TaskExecutionContext<Inputs>
+    ) => Promise<void | TaskId | TaskGroupId | TaskResult>;
     checkCondition: () => Promise<boolean>;
+    guard?: (context: TaskGuardContext<Inputs>) => boolean | Promise<boolean>;
     nextTasks?: TaskId[];
+    dependsOn?: TaskId[];
     retries?: number;
     waitTime?: number;
+    retryPolicy?: RetryPolicy;
+    shouldRetry?: (error: unknown, attempt: number) => boolean;
+    timeout?: number;
+    softTimeout?: number;
+    compensate?: (context: TaskCompensationContext<Inputs>) => Promise<void>;
+    resources?: string[];
   }) {
     this.id = options.id;
     this.execute = options.execute;
     this.checkCondition = options.checkCondition;
+    this.guard = options.guard;
     this.retries = options.retries || 0;
-    this.waitTime = options.waitTime || 1000;
+    this.waitTime = options.waitTime ?? 1000;
+    this.retryPolicy = options.retryPolicy;
+    this.shouldRetry = options.shouldRetry;
+    this.timeout = options.timeout;
+    this.softTimeout = options.softTimeout;
+    this.compensate = options.compensate;
     this.nextTasks = options.nextTasks;
+    this.dependsOn = options.dependsOn;
+    this.resources = options.resources;
     this.state = "not_started";
     this.time = 0;
+    this.attempts = [];
   }
 
   /**
@@ -85,30 +373,70 @@ export class Task {
    *
    * This method sets the task's state to 'in_process', executes the task's logic, and checks
    * a post-execution condition. If the condition is not met, it throws an error. Otherwise,
-   * it calculates the execution time, updates the task's state to 'completed', and returns the result.
+   * it calculates the execution time, updates the task's state to 'completed', records the
+   * task's output and returns the jump the task asked for, if any.
    * In case of an error during execution or condition check, it sets the task's state to 'failed'
-   * and rethrows the error. This method is public primarily to facilitate testing.
+   * and rethrows the error. If the attempt takes longer than `timeout`, its signal is aborted, the
+   * state is set to 'timed_out' and a `TimeoutError` is thrown. If the given signal is aborted, the
+   * task stops waiting for `execute`, its state is set to 'cancelled' (or 'timed_out' when the abort
+   * reason is a `TimeoutError`) and the abort reason is thrown. Every call is recorded in `attempts`.
+   * This method is public primarily to facilitate testing.
    *
-   * @returns {Promise<string | void>} A promise that resolves with the result of the task execution.
-   *                                   The result can be a string, or void if there is no return value.
+   * @param {TaskRunOptions} [options] - The signal and run context for the attempt.
+   * @returns {Promise<TaskId | TaskGroupId | JumpDirective | void>} A promise that resolves with the jump
+   *                                                                 the task asked for, or void if it did not.
    * @throws {Error} Throws an error if the task execution fails or the post-execution condition is not met.
    *
    * @example
    * // Running a task
-   * myTask.runTask().then(result => {
-   *   console.log('Task completed with result:', result);
+   * myTask.runTask().then(next => {
+   *   console.log('Task completed, jumping to:', next);
    * }).catch(error => {
    *   console.error('Task failed:', error);
    * });
    */
-  public runTask = async (): Promise<string | void> => {
+  public runTask = async (
+    options: Omit<TaskRunOptions, "onRetry"> = {}
+  ): Promise<TaskId | TaskGroupId | JumpDirective | void> => {
+    const { controller, unlink } = linkAbortController(options.signal);
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    if (this.timeout !== undefined) {
+      timer = setTimeout(() => {
+        controller.abort(
+          new TimeoutError(`Task ${this.id} timed out after ${this.timeout}ms`)
+        );
+      }, this.timeout);
+    }
+
+    const startTime = Date.now();
+    const attempt: TaskAttempt = {
+      attempt: this.attempts.length + 1,
+      startTime,
+      endTime: startTime,
+      state: "in_progress",
+    };
+    this.attempts.push(attempt);
+
     try {
+      controller.signal.throwIfAborted();
       this.state = "in_progress";
 
-      const startTime = Date.now();
-      const result = await this.execute();
+      const result = await raceSignal(
+        this.execute({
+          signal: controller.signal,
+          taskId: this.id,
+          attempt: attempt.attempt,
+          inputs: (options.inputs || {}) as Inputs,
+          outputs: options.outputs || new Map(),
+          scratch: options.scratch || new Map(),
+        }),
+        controller.signal
+      );
 
-      if (this.checkCondition && !(await this.checkCondition())) {
+      if (
+        this.checkCondition &&
+        !(await raceSignal(this.checkCondition(), controller.signal))
+      ) {
         throw new Error("Condition not met");
       }
 
@@ -116,10 +444,23 @@ export class Task {
 
       this.time = endTime - startTime;
       this.state = "completed";
+      if (typeof result === "object" && result !== null) {
+        this.output = result.output;
+        return result.next;
+      }
+      this.output = undefined;
       return result;
     } catch (error) {
-      this.state = "failed";
+      this.state = controller.signal.aborted
+        ? abortedState(controller.signal.reason)
+        : "failed";
+      attempt.error = error;
       throw error;
+    } finally {
+      attempt.endTime = Date.now();
+      attempt.state = this.state!;
+      clearTimeout(timer);
+      unlink();
     }
   };
 
@@ -127,58 +468,301 @@ export class Task {
    * Executes the task with retry logic.
    *
    * This method attempts to run the task using `runTask`. If `runTask` throws an error,
-   * the method retries the execution based on the `retries` property of the task.
-   * Between each retry, it waits for a duration specified by the `waitTime` property.
-   * If the task continues to fail after all retries are exhausted, the error is thrown.
-   * The method ensures at least one execution of the task regardless of the retry count.
+   * the method asks `shouldRetry` whether the error is worth retrying and the retry policy
+   * whether any retries are left. The policy defaults to `retries` retries, `waitTime`
+   * milliseconds apart. Before each retry `onRetry` is called, and awaited if it returns
+   * a promise, then the method waits for the delay chosen by the policy and for
+   * `beforeRetry`. Once no retry is left, the error is thrown straight away without
+   * waiting. Aborting the given signal stops any further attempts, including a pending
+   * wait between them.
    *
-   * @returns {Promise<string | void>} A promise that resolves with the result of the task execution,
-   *                                   or void if there is no return value. If the task fails even after
+   * @param {TaskRunOptions} [options] - The signal, retry callback and run context for the task.
+   * @returns {Promise<TaskId | TaskGroupId | JumpDirective | void>} A promise that resolves with the jump the
+   *                                   task asked for, or void if it did not. If the task fails even after
    *                                   all retries, the promise is rejected with the encountered error.
    * @throws {Error} Throws the error encountered during task execution if all retries fail.
    *
    * @example
    * // Running a task with retry logic
-   * myTask.run().then(result => {
-   *   console.log('Task completed successfully:', result);
+   * myTask.run().then(() => {
+   *   console.log('Task completed successfully:', myTask.output);
    * }).catch(error => {
    *   console.error('Task failed after retries:', error);
    * });
    */
-  public run = async (): Promise<string | void> => {
-    let currentRetries = 0;
-    let hasRun = false;
-    while (currentRetries < this.retries || !hasRun) {
+  public run = async (
+    options: TaskRunOptions = {}
+  ): Promise<TaskId | TaskGroupId | JumpDirective | void> => {
+    const { onRetry, beforeRetry, ...attemptOptions } = options;
+    const signal = options.signal;
+    const policy =
+      this.retryPolicy ||
+      new FixedBackoff({ retries: this.retries, delay: this.waitTime });
+    const shouldRetry = this.shouldRetry || defaultShouldRetry;
+    this.attempts = [];
+
+    let previousDelay = 0;
+    for (let attempt = 1; ; attempt++) {
       try {
-        const result = await this.runTask();
-        return result;
+        return await this.runTask(attemptOptions);
       } catch (error) {
-        if (this.waitTime > 0) {
-          await wait(this.waitTime);
+        if (
+          signal?.aborted ||
+          attempt > policy.maxRetries ||
+          !shouldRetry(error, attempt)
+        ) {
+          throw error;
         }
 
-        if (currentRetries >= this.retries) {
-          throw error;
+        const delay = policy.getDelay(attempt, previousDelay);
+        previousDelay = delay;
+        this.attempts[this.attempts.length - 1].delay = delay;
+        await onRetry?.({ attempt, error, delay });
+
+        if (delay > 0) {
+          try {
+            await wait(delay, signal);
+          } catch (abortReason) {
+            this.state = abortedState(abortReason);
+            throw abortReason;
+          }
+        }
+        try {
+          await beforeRetry?.({ attempt, error, delay });
+        } catch (reason) {
+          this.state = signal?.aborted ? abortedState(signal.reason) : "failed";
+          throw reason;
         }
       }
+    }
+  };
+
+  /**
+   * Undoes the effects of the task by calling `compensate` once, without retries.
+   *
+   * The state is set to 'compensating' while `compensate` runs, then to 'compensated',
+   * or to 'compensation_failed' if it throws or the given signal is aborted, in which
+   * case the error is rethrown. Tasks without `compensate` are left untouched.
+   *
+   * @param {Omit<TaskRunOptions, "onRetry">} [options] - The signal and run context for the compensation.
+   * @returns {Promise<void>} A promise that resolves once the task has been compensated.
+   * @throws {Error} Throws the error encountered during the compensation.
+   */
+  public runCompensation = async (
+    options: Omit<TaskRunOptions, "onRetry"> = {}
+  ) => {
+    if (!this.compensate) {
+      return;
+    }
 
-      hasRun = true;
-      currentRetries++;
+    this.state = "compensating";
+    try {
+      options.signal?.throwIfAborted();
+      await raceSignal(
+        this.compensate({
+          signal: options.signal || new AbortController().signal,
+          taskId: this.id,
+          output: this.output,
+          inputs: (options.inputs || {}) as Inputs,
+          outputs: options.outputs || new Map(),
+          scratch: options.scratch || new Map(),
+        }),
+        options.signal
+      );
+      this.state = "compensated";
+    } catch (error) {
+      this.state = "compensation_failed";
+      throw error;
     }
   };
 }
 
-type SerializedData = {
-  type: "task" | "task-group";
+/**
+ * The state of a task group. On top of the task states, a group that has
+ * started but is being held by `flow.pause()` is reported as 'paused'.
+ */
+export type TaskGroupState = TaskState | "paused" | "partially_failed";
+
+/**
+ * An error in a form that survives `JSON.stringify()`.
+ */
+export type SerializedError = {
+  name: string;
+  message: string;
+  stack?: string;
+};
+
+/**
+ * A task attempt in a serialized state, see `TaskAttempt`.
+ */
+export type SerializedAttempt = {
+  attempt: number;
+  startTime: number;
+  endTime: number;
   state: TaskState;
+  delay?: number;
+  error?: SerializedError;
+};
+
+/**
+ * The serialized state of a task or task group, version 2 of the schema.
+ *
+ * Version 1 only had `type`, `state`, `time` and `children`, so every other
+ * property is optional and snapshots of both versions can be restored.
+ *
+ * @property {"task" | "task-group"} type - Whether the entry is a task or a task group.
+ * @property {TaskGroupState} state - The current state. Only groups can be 'paused' or 'partially_failed'.
+ * @property {number} time - The time taken so far in milliseconds.
+ * @property {number} [startTime] - When the task or group started, absent if it has not.
+ * @property {number} [endTime] - When the task or group finished, absent if it has not.
+ * @property {number} [attemptCount] - The number of attempts a task made in its last run.
+ * @property {SerializedAttempt[]} [attempts] - The attempts of a task, with their errors.
+ * @property {unknown} [output] - The output a task completed with, as far as it survives `JSON.stringify()`.
+ * @property {string} [skipReason] - Why a task was skipped.
+ * @property {unknown} [item] - The item a task of a `MapTaskGroup` was generated for.
+ * @property {string[]} [waitingFor] - The shared resources a 'waiting' task is waiting for.
+ * @property {SerializedState} [children] - The children of a task group.
+ */
+export type SerializedData = {
+  type: "task" | "task-group";
+  state: TaskGroupState;
   time: number;
+  startTime?: number;
+  endTime?: number;
+  attemptCount?: number;
+  attempts?: SerializedAttempt[];
+  output?: unknown;
+  skipReason?: string;
+  item?: unknown;
+  waitingFor?: string[];
   children?: SerializedState;
 };
 
-type SerializedState = {
+export type SerializedState = {
   [entityId: string]: SerializedData;
 };
 
+/**
+ * Decides how a task group, or the flow as a whole, reacts to failing children.
+ *
+ * - `fail-fast` stops at the first failure and fails the group.
+ * - `continue` runs every child regardless of failures; the group ends up 'partially_failed'.
+ * - `{ maxFailures }` tolerates up to `maxFailures` failing children and behaves like
+ *   `fail-fast` once one more fails.
+ *
+ * A child group counts as a failure when its own policy made it fail.
+ */
+export type FailurePolicy = "fail-fast" | "continue" | { maxFailures: number };
+
+// The first child, in the current order, that has not been picked yet
+const nextUnvisited = <T>(children: Map<string, T>, visited: Set<T>) => {
+  for (const child of children.values()) {
+    if (!visited.has(child)) {
+      return child;
+    }
+  }
+  return undefined;
+};
+
+const describeNode = (node: Task | TaskGroup) =>
+  `${node instanceof Task ? "Task" : "Task group"} ${node.id}`;
+
+const isPolicyBreached = (policy: FailurePolicy, failures: number) => {
+  if (policy === "fail-fast") {
+    return failures > 0;
+  }
+  if (policy === "continue") {
+    return false;
+  }
+  return failures > policy.maxFailures;
+};
+
+const serializeAttempt = (attempt: TaskAttempt): SerializedAttempt => {
+  const serialized: SerializedAttempt = {
+    attempt: attempt.attempt,
+    startTime: attempt.startTime,
+    endTime: attempt.endTime,
+    state: attempt.state,
+  };
+  if (attempt.delay !== undefined) {
+    serialized.delay = attempt.delay;
+  }
+  if (attempt.error !== undefined) {
+    serialized.error = serializeError(attempt.error);
+  }
+  return serialized;
+};
+
+// Restored errors are turned back into `Error` instances so they serialize the same way again
+const restoreAttempt = (attempt: SerializedAttempt): TaskAttempt => {
+  const restored: TaskAttempt = {
+    attempt: attempt.attempt,
+    startTime: attempt.startTime,
+    endTime: attempt.endTime,
+    state: attempt.state,
+  };
+  if (attempt.delay !== undefined) {
+    restored.delay = attempt.delay;
+  }
+  if (attempt.error) {
+    const error = new Error(attempt.error.message);
+    error.name = attempt.error.name;
+    error.stack = attempt.error.stack;
+    restored.error = error;
+  }
+  return restored;
+};
+
+/**
+ * Ends a span with an 'ok' status, or with an 'error' status if an error is given.
+ */
+const endSpan = (
+  span: Span | undefined,
+  error?: unknown,
+  endTime?: number
+) => {
+  if (!span) {
+    return;
+  }
+  if (error === undefined) {
+    span.setStatus({ code: "ok" });
+  } else {
+    span.recordException(error).setStatus({
+      code: "error",
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+  span.end(endTime);
+};
+
+/**
+ * Where a child goes among its siblings: right before or right after the sibling
+ * with the given id. Without either, the child goes to the end.
+ *
+ * @property {TaskId | TaskGroupId} [before] - The sibling the child is placed before.
+ * @property {TaskId | TaskGroupId} [after] - The sibling the child is placed after.
+ */
+export type ChildPosition = {
+  before?: TaskId | TaskGroupId;
+  after?: TaskId | TaskGroupId;
+};
+
+/**
+ * Options controlling how the children of a task group are executed.
+ *
+ * @property {boolean} [parallel=false] - When true, the children of the group are run concurrently
+ *                                        instead of one after the other.
+ * @property {number} [maxConcurrency=Infinity] - The maximum number of children running at the same
+ *                                                time when `parallel` is enabled.
+ * @property {FailurePolicy} [failurePolicy] - How the group reacts to failing children. Defaults to the
+ *                                             flow's failure policy.
+ */
+export type TaskGroupOptions = {
+  parallel?: boolean;
+  maxConcurrency?: number;
+  failurePolicy?: FailurePolicy;
+};
+
 /**
  * Represents a group of tasks and/or task groups.
  *
@@ -187,29 +771,102 @@ type SerializedState = {
  * the addition and removal of tasks or task groups from the collection.
  *
  * @property {TaskGroupId} id - The unique identifier of the task group.
- * @property {Map<TaskId | TaskGroupId, Task | TaskGroup>} children - A map of child tasks and task groups.
+ * @property {Map<TaskId | TaskGroupId, Task<any> | TaskGroup>} children - A map of child tasks and task groups.
+ * @property {boolean} parallel - Whether the children of the group are run concurrently.
+ * @property {number} maxConcurrency - The maximum number of children running at once in parallel mode.
+ * @property {FailurePolicy} [failurePolicy] - How the group reacts to failing children, if it overrides the flow's policy.
+ * @property {Array<Task | TaskGroup>} replacedChildren - The children `addChild()` replaced with another child
+ *                                                        of the same id, reported by `FlowControl.validate()`.
+ * @property {number} [startTime] - The timestamp at which the group last started running.
+ * @property {number} [time] - The wall-clock time taken by the group, updated after execution.
  */
 export class TaskGroup {
   id: TaskGroupId;
-  children: Map<TaskId | TaskGroupId, Task | TaskGroup>;
+  children: Map<TaskId | TaskGroupId, Task<any> | TaskGroup>;
+  replacedChildren: Array<Task<any> | TaskGroup>;
+  parallel: boolean;
+  maxConcurrency: number;
+  failurePolicy?: FailurePolicy;
+  startTime?: number;
+  time?: number;
 
   /**
    * Constructs a new instance of TaskGroup.
    *
    * @param {TaskGroupId} id - The unique identifier for the task group.
+   * @param {TaskGroupOptions} [options] - Options controlling how the children are executed.
+   * @throws {Error} Throws an error if `maxConcurrency` is less than 1 or `maxFailures` is negative.
    */
-  constructor(id: TaskGroupId) {
+  constructor(id: TaskGroupId, options: TaskGroupOptions = {}) {
     this.id = id;
     this.children = new Map();
+    this.replacedChildren = [];
+    this.parallel = options.parallel || false;
+    this.maxConcurrency = options.maxConcurrency ?? Infinity;
+    this.failurePolicy = options.failurePolicy;
+
+    if (!(this.maxConcurrency >= 1)) {
+      throw new Error(`Invalid maxConcurrency for task group ${id}`);
+    }
+    if (
+      typeof this.failurePolicy === "object" &&
+      !(this.failurePolicy.maxFailures >= 0)
+    ) {
+      throw new Error(`Invalid maxFailures for task group ${id}`);
+    }
   }
 
   /**
    * Adds a task or task group to the collection.
    *
+   * A different child with the same id is replaced, and kept in `replacedChildren`.
+   *
    * @param {Task | TaskGroup} task - The task or task group to be added to this group.
+   * @param {ChildPosition} [position] - Where to insert the child, at the end by default.
+   * @throws {Error} Throws an error if the sibling named in `position` does not exist.
    */
-  addChild(task: Task | TaskGroup) {
-    this.children.set(task.id, task);
+  addChild(task: Task<any> | TaskGroup, position?: ChildPosition) {
+    const anchor = position?.before ?? position?.after;
+    if (
+      anchor !== undefined &&
+      (anchor === task.id || !this.children.has(anchor))
+    ) {
+      throw new Error(`Task group ${this.id} has no other child ${anchor}`);
+    }
+    const replaced = this.children.get(task.id);
+    if (replaced && replaced !== task) {
+      this.replacedChildren.push(replaced);
+    }
+    if (anchor === undefined) {
+      this.children.set(task.id, task);
+      return;
+    }
+
+    const entries = Array.from(this.children.entries()).filter(
+      ([id]) => id !== task.id
+    );
+    const index =
+      entries.findIndex(([id]) => id === anchor) +
+      (position?.before !== undefined ? 0 : 1);
+    entries.splice(index, 0, [task.id, task]);
+    // Rebuilt in place, the map is shared with anything iterating the children
+    this.children.clear();
+    entries.forEach(([id, child]) => this.children.set(id, child));
+  }
+
+  /**
+   * Moves a child to another position among its siblings.
+   *
+   * @param {TaskId | TaskGroupId} taskId - The identifier of the task or task group to be moved.
+   * @param {ChildPosition} position - Where to move the child.
+   * @throws {Error} Throws an error if either the child or the sibling named in `position` does not exist.
+   */
+  moveChild(taskId: TaskId | TaskGroupId, position: ChildPosition) {
+    const child = this.children.get(taskId);
+    if (!child) {
+      throw new Error(`Task group ${this.id} has no child ${taskId}`);
+    }
+    this.addChild(child, position);
   }
 
   /**
@@ -219,9 +876,306 @@ export class TaskGroup {
    */
   removeChild(taskId: TaskId | TaskGroupId) {
     this.children.delete(taskId);
+    this.replacedChildren = this.replacedChildren.filter(
+      (child) => child.id !== taskId
+    );
+  }
+
+  /**
+   * Checks whether a task with the given identifier lives anywhere below this group.
+   *
+   * @param {TaskId} taskId - The identifier of the task to look for.
+   * @returns {boolean} True if the task is a child of this group or of one of its nested groups.
+   */
+  containsTask(taskId: TaskId): boolean {
+    for (const child of this.children.values()) {
+      if (child instanceof Task ? child.id === taskId : child.containsTask(taskId)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Checks whether a task or task group with the given identifier lives anywhere below this group.
+   *
+   * @param {TaskId | TaskGroupId} id - The identifier of the task or task group to look for.
+   * @returns {boolean} True if a child of this group or of one of its nested groups has the identifier.
+   */
+  contains(id: TaskId | TaskGroupId): boolean {
+    for (const child of this.children.values()) {
+      if (child.id === id || (child instanceof TaskGroup && child.contains(id))) {
+        return true;
+      }
+    }
+    return false;
+  }
+}
+
+/**
+ * The context handed to `MapTaskGroup.items` when the group is about to run.
+ *
+ * @property {AbortSignal} signal - Aborted when the flow is cancelled.
+ * @property {Record<string, unknown>} inputs - The inputs passed to `FlowControl.run()`.
+ * @property {ReadonlyMap<TaskId, unknown>} outputs - The outputs of the tasks that completed so far, by task id.
+ * @property {Map<string, unknown>} scratch - The scratch store of the run.
+ */
+export type MapItemsContext = {
+  signal: AbortSignal;
+  inputs: Record<string, unknown>;
+  outputs: ReadonlyMap<TaskId, unknown>;
+  scratch: Map<string, unknown>;
+};
+
+/**
+ * Options of a `MapTaskGroup`, on top of the usual task group options.
+ *
+ * @property {Function} items - Computes the items to map over, once per run when the group starts.
+ * @property {Function} createTask - Creates the task for an item. It receives the item, the id generated
+ *                                   for the task and the position of the item.
+ * @property {Function} [itemKey] - Derives the part of the generated id that identifies an item. Defaults
+ *                                  to the position of the item.
+ */
+export type MapTaskGroupOptions<Item> = TaskGroupOptions & {
+  items: (context: MapItemsContext) => Item[] | Promise<Item[]>;
+  createTask: (item: Item, id: TaskId, index: number) => Task<any>;
+  itemKey?: (item: Item, index: number) => string;
+};
+
+/**
+ * A task group whose tasks are generated at run time, one for every item of a
+ * list that is only known once the group starts, e.g. from the output of an
+ * earlier task.
+ *
+ * The generated tasks get the id `<group id>[<key>]`, where the key is the position
+ * of the item or the result of `itemKey`. Map groups are parallel by default, use
+ * `maxConcurrency` to limit how many items are processed at once. The items show
+ * up in `getSerializedState()`, so they should survive `JSON.stringify()` for a
+ * resumed run to recreate the tasks of a restored snapshot.
+ *
+ * @property {boolean} expanded - Whether the tasks have been generated for the current run.
+ * @property {unknown} [expansionError] - The error computing the items failed with, if it did.
+ *
+ * @example
+ * const deploy = new MapTaskGroup('Deploy', {
+ *   items: ({ outputs }) => outputs.get('List Regions') as string[],
+ *   itemKey: (region) => region,
+ *   createTask: (region, id) =>
+ *     new Task({ id, execute: () => deployTo(region), checkCondition: async () => true }),
+ *   maxConcurrency: 2,
+ * });
+ */
+export class MapTaskGroup<Item = unknown> extends TaskGroup {
+  items: (context: MapItemsContext) => Item[] | Promise<Item[]>;
+  createTask: (item: Item, id: TaskId, index: number) => Task<any>;
+  itemKey?: (item: Item, index: number) => string;
+  expanded: boolean;
+  expansionError?: unknown;
+  private itemsByTask: Map<TaskId, Item>;
+
+  /**
+   * Constructs a new instance of MapTaskGroup.
+   *
+   * @param {TaskGroupId} id - The unique identifier for the task group.
+   * @param {MapTaskGroupOptions} options - How to compute the items and create their tasks.
+   * @throws {Error} Throws an error if `maxConcurrency` is less than 1 or `maxFailures` is negative.
+   */
+  constructor(id: TaskGroupId, options: MapTaskGroupOptions<Item>) {
+    super(id, { ...options, parallel: options.parallel ?? true });
+    this.items = options.items;
+    this.createTask = options.createTask;
+    this.itemKey = options.itemKey;
+    this.expanded = false;
+    this.itemsByTask = new Map();
+  }
+
+  /**
+   * Replaces the children of the group with a task for every item.
+   *
+   * @param {Item[]} items - The items to create tasks for.
+   * @param {TaskId[]} [ids] - The ids to give the tasks instead of generating them, as found in a snapshot.
+   * @returns {Task[]} The created tasks.
+   * @throws {Error} Throws an error if two items have the same key.
+   */
+  expand(items: Item[], ids?: TaskId[]): Task<any>[] {
+    this.collapse();
+    items.forEach((item, index) => {
+      const key = this.itemKey ? this.itemKey(item, index) : String(index);
+      const id = ids ? ids[index] : `${this.id}[${key}]`;
+      if (this.children.has(id)) {
+        throw new Error(`Duplicate item ${key} in map task group ${this.id}`);
+      }
+      const task = this.createTask(item, id, index);
+      task.id = id;
+      this.addChild(task);
+      this.itemsByTask.set(id, item);
+    });
+    this.expanded = true;
+    return Array.from(this.children.values()) as Task<any>[];
+  }
+
+  /**
+   * Removes the generated tasks, so the items are computed again on the next run.
+   */
+  collapse() {
+    this.children.clear();
+    this.itemsByTask.clear();
+    this.expanded = false;
+    delete this.expansionError;
+  }
+
+  /**
+   * Retrieves the item a generated task was created for.
+   *
+   * @param {TaskId} taskId - The identifier of the generated task.
+   * @returns {Item | undefined} The item, or undefined if the task was not generated by this group.
+   */
+  getItem(taskId: TaskId): Item | undefined {
+    return this.itemsByTask.get(taskId);
   }
 }
 
+/**
+ * Options controlling how a `FlowControl` instance schedules its tasks.
+ *
+ * @property {"groups" | "graph"} [scheduler="groups"] - The scheduling strategy. `groups` walks the task
+ *                                                      groups in insertion order. `graph` ignores the group
+ *                                                      order and runs each task as soon as the tasks it depends
+ *                                                      on, through `nextTasks` and `dependsOn`, have completed.
+ * @property {number} [maxConcurrency=Infinity] - The maximum number of tasks running at once with the `graph` scheduler.
+ * @property {StateStore} [stateStore] - A store receiving a snapshot from `getSerializedState()` on every task
+ *                                       transition while the flow runs.
+ * @property {boolean} [awaitListeners=false] - Wait for asynchronous listeners of the task lifecycle events,
+ *                                              `success`, `flowComplete`, `cancelled` and `timedOut` before
+ *                                              moving on.
+ * @property {boolean} [rollback=false] - Roll the flow back when a run fails, see `FlowControl.rollback()`.
+ * @property {FailurePolicy} [failurePolicy="fail-fast"] - How the flow reacts to failing top-level groups, and
+ *                                                         the default for groups without their own policy. With
+ *                                                         the `graph` scheduler it applies to every task instead.
+ * @property {Tracer} [tracer] - Receives a span for every run, task group, task and attempt, see `BasicTracer`.
+ * @property {Record<string, ResourceOptions>} [resources] - Resources shared by the tasks of every group, by name.
+ *                                                           A task listing a resource in `resources` waits until
+ *                                                           the resource is within its concurrency and rate limits,
+ *                                                           and holds it until it settles, retries included.
+ * @property {boolean} [validate=false] - Validate the flow before every run, which rejects with a
+ *                                        `FlowValidationError` before anything runs if `validate()` reports errors.
+ * @property {ListenerErrorHandler} [onListenerError] - Receives the errors thrown by event listeners, along with
+ *                                                      the event. Without it, they are emitted as `error` events.
+ */
+export type FlowControlOptions = {
+  scheduler?: "groups" | "graph";
+  maxConcurrency?: number;
+  stateStore?: StateStore;
+  awaitListeners?: boolean;
+  rollback?: boolean;
+  failurePolicy?: FailurePolicy;
+  tracer?: Tracer;
+  resources?: Record<string, ResourceOptions>;
+  validate?: boolean;
+  onListenerError?: ListenerErrorHandler;
+};
+
+/**
+ * A task that failed during a run.
+ *
+ * @property {TaskId} taskId - The identifier of the failed task.
+ * @property {unknown} error - The error the task failed with.
+ */
+export type TaskFailure = {
+  taskId: TaskId;
+  error: unknown;
+};
+
+/**
+ * The outcome of a run that was not stopped by its failure policy.
+ *
+ * @property {"completed" | "partially_failed"} status - 'partially_failed' if failures were tolerated.
+ * @property {TaskFailure[]} errors - Every task failure of the run, in the order they happened.
+ */
+export type FlowResult = {
+  status: "completed" | "partially_failed";
+  errors: TaskFailure[];
+};
+
+/**
+ * The outcome of a rollback.
+ *
+ * @property {"compensated" | "compensation_failed"} status - 'compensation_failed' if any compensation threw.
+ * @property {TaskFailure[]} errors - The tasks whose compensation failed and their errors.
+ */
+export type RollbackResult = {
+  status: "compensated" | "compensation_failed";
+  errors: TaskFailure[];
+};
+
+/**
+ * The events emitted by `FlowControl` and the arguments their listeners receive.
+ */
+export type FlowControlEvents = {
+  taskStarted: [task: Task];
+  taskComplete: [task: Task];
+  taskFailed: [task: Task, error: unknown];
+  taskSkipped: [task: Task];
+  taskRetry: [task: Task, retry: TaskRetry];
+  taskWarning: [task: Task, message: string];
+  taskWaiting: [task: Task, resources: string[]];
+  taskGroupExpanded: [taskGroup: MapTaskGroup<any>, tasks: Task[]];
+  childAdded: [taskGroup: TaskGroup, child: Task | TaskGroup];
+  childRemoved: [taskGroup: TaskGroup, child: Task | TaskGroup];
+  childMoved: [taskGroup: TaskGroup, child: Task | TaskGroup];
+  rollbackStarted: [];
+  taskCompensated: [task: Task];
+  compensationFailed: [task: Task, error: unknown];
+  rollbackComplete: [result: RollbackResult];
+  success: [message: string];
+  flowComplete: [state: SerializedState];
+  paused: [];
+  resumed: [];
+  cancelled: [reason: unknown];
+  timedOut: [reason: unknown];
+  error: [error: unknown];
+};
+
+/**
+ * Options for a single `FlowControl.run()` call.
+ *
+ * @property {AbortSignal} [signal] - Aborting this signal cancels the run, just like `flow.cancel()`.
+ * @property {number | Date} [deadline] - When the whole run has to be finished, either as a number of
+ *                                        milliseconds from the start of the run or as an absolute date.
+ * @property {boolean} [resume=false] - Continue from the current task states, typically after
+ *                                      `restoreState()`, instead of resetting every task first.
+ * @property {Record<string, unknown>} [inputs] - The inputs handed to every task through `context.inputs`.
+ */
+export type RunOptions = {
+  signal?: AbortSignal;
+  deadline?: number | Date;
+  resume?: boolean;
+  inputs?: Record<string, unknown>;
+};
+
+/**
+ * Options for `FlowControl.restoreState()`.
+ *
+ * @property {"rerun" | "assume_completed" | "error"} [inProgress="rerun"] - What to do with tasks that were
+ *           'in_progress' when the state was saved. `rerun` resets them so they run again, `assume_completed`
+ *           treats them as completed, and `error` refuses to restore the state so an operator can decide.
+ */
+export type RestoreOptions = {
+  inProgress?: "rerun" | "assume_completed" | "error";
+};
+
+/**
+ * Options for `FlowControl.plan()`.
+ *
+ * @property {boolean} [resume=false] - Plan a resumed run, which leaves the tasks completed by an earlier
+ *                                      run alone, instead of a fresh one.
+ * @property {Record<string, unknown>} [inputs] - The inputs handed to the guards, as `run()` would.
+ */
+export type PlanOptions = {
+  resume?: boolean;
+  inputs?: Record<string, unknown>;
+};
+
 /**
  * Manages and orchestrates the execution of task groups.
  *
@@ -229,26 +1183,77 @@ export class TaskGroup {
  * of task groups, allowing for addition, removal, execution, and retrieval of these groups.
  * It also provides a method to serialize the state of the task groups.
  *
+ * Events emitted (see `FlowControlEvents` for the listener arguments):
+ * - `taskStarted` / `taskComplete` with the task, around every executed task.
+ * - `taskFailed` with the task and the error, when a task fails after all of its retries.
+ * - `taskSkipped` with the task, when a task is skipped by a jump, its guard or a failed dependency.
+ * - `taskRetry` with the task and a `TaskRetry`, before a failed task is retried.
+ * - `taskWarning` with the task and a message, when a task runs longer than its `softTimeout`.
+ * - `rollbackStarted` / `rollbackComplete` with a `RollbackResult`, around a rollback.
+ * - `taskCompensated` with the task, or `compensationFailed` with the task and the error, for every
+ *   task compensated during a rollback.
+ * - `success` with a message, whenever a task group finishes.
+ * - `flowComplete` with the serialized state, when a run finishes successfully.
+ * - `paused` / `resumed`, when the flow is paused or resumed.
+ * - `cancelled` with the abort reason, when a run is cancelled.
+ * - `timedOut` with the `TimeoutError`, when a run exceeds its deadline.
+ * - `error` with the error, when saving a snapshot to the state store fails or a listener throws.
+ *
  * @extends EventEmitter
  * @property {Map<TaskGroupId, TaskGroup>} taskGroups - A private map to manage task groups by their IDs.
  */
-export class FlowControl extends EventEmitter {
+export class FlowControl extends EventEmitter<FlowControlEvents> {
   // Map to quickly access tasks by id
   private taskGroups: Map<TaskGroupId, TaskGroup>;
-  private nextTaskId?: TaskId;
+  private options: FlowControlOptions;
+  private abortController?: AbortController;
+  private paused: boolean;
+  private resumeCallbacks: Array<() => void>;
+  private resuming: boolean;
+  private pendingSave: Promise<void>;
+  private inputs: Record<string, unknown>;
+  private outputs: Map<TaskId, unknown>;
+  private scratch: Map<string, unknown>;
+  private failures: TaskFailure[];
+  private completedTasks: Task<any>[];
+  private resources: Map<string, Resource>;
+  private replacedGroups: TaskGroup[];
 
-  constructor() {
-    super();
+  constructor(options: FlowControlOptions = {}) {
+    super({ onListenerError: options.onListenerError });
     this.taskGroups = new Map();
+    this.options = options;
+    this.paused = false;
+    this.resumeCallbacks = [];
+    this.resuming = false;
+    this.pendingSave = Promise.resolve();
+    this.inputs = {};
+    this.outputs = new Map();
+    this.scratch = new Map();
+    this.failures = [];
+    this.completedTasks = [];
+    this.replacedGroups = [];
+    this.resources = new Map(
+      Object.entries(options.resources || {}).map(([name, resource]) => [
+        name,
+        new Resource(name, resource),
+      ])
+    );
   }
 
   /**
    * Adds a task group to the collection.
    *
+   * A different group with the same id is replaced, which `validate()` reports.
+   *
    * @param {TaskGroup} taskGroup - The task group to be added.
    */
 
   addGroup(taskGroup: TaskGroup) {
+    const replaced = this.taskGroups.get(taskGroup.id);
+    if (replaced && replaced !== taskGroup) {
+      this.replacedGroups.push(replaced);
+    }
     this.taskGroups.set(taskGroup.id, taskGroup);
   }
 
@@ -259,6 +1264,9 @@ export class FlowControl extends EventEmitter {
    */
   removeGroup(taskGroupId: TaskGroupId) {
     this.taskGroups.delete(taskGroupId);
+    this.replacedGroups = this.replacedGroups.filter(
+      (taskGroup) => taskGroup.id !== taskGroupId
+    );
   }
 
   /**
@@ -282,50 +1290,1801 @@ export class FlowControl extends EventEmitter {
     return this.taskGroups.get(taskGroupId);
   }
 
-  private executeTask = async (task: Task) => {
-    if (this.nextTaskId && task.id !== this.nextTaskId) {
-      task.state = "skipped";
-      return;
-    }
-
-    this.emit("taskStarted", task);
-    const nextTaskId = await task.run();
-    if (nextTaskId) {
-      this.nextTaskId = nextTaskId;
-    } else if (this.nextTaskId) {
-      delete this.nextTaskId;
+  /**
+   * Adds a task or task group to any group of the flow, also while the flow is running.
+   *
+   * During a run, children added to a group that has not finished yet are run
+   * with it: a sequential group runs them when it gets to their position, or
+   * right after the running child if they are inserted before it, and a parallel
+   * group starts them once the children it already knew have settled. Emits
+   * 'childAdded' and saves a snapshot.
+   *
+   * @param {TaskGroupId} taskGroupId - The ID of the group to add the child to.
+   * @param {Task | TaskGroup} child - The task or task group to be added.
+   * @param {ChildPosition} [position] - Where to insert the child, at the end by default.
+   * @throws {Error} Throws an error if the group does not exist or has already run, or if the id
+   *                 of the child is already used.
+   *
+   * @example
+   * // A task appending a follow-up task to its own group
+   * execute: async () => {
+   *   flowControl.addChild('Provision', new Task({ id: 'Verify', execute, checkCondition }));
+   * },
+   */
+  addChild = (
+    taskGroupId: TaskGroupId,
+    child: Task | TaskGroup,
+    position?: ChildPosition
+  ) => {
+    const taskGroup = this.findNode(taskGroupId)?.node;
+    if (!(taskGroup instanceof TaskGroup)) {
+      throw new Error(`Unknown task group ${taskGroupId}`);
+    }
+    if (this.findNode(child.id)) {
+      throw new Error(
+        `A task or task group with the id ${child.id} exists already`
+      );
+    }
+    this.assertMutable();
+    if (this.abortController && taskGroup.time !== undefined) {
+      throw new Error(`Task group ${taskGroupId} has already run`);
+    }
+
+    taskGroup.addChild(child, position);
+    this.saveState();
+    this.emit("childAdded", taskGroup, child);
+  };
+
+  /**
+   * Removes a task or task group from its group, also while the flow is running.
+   *
+   * During a run, only children that have not started can be removed; they are
+   * left out of the run. Emits 'childRemoved' and saves a snapshot. Use
+   * `removeGroup()` for top-level groups.
+   *
+   * @param {TaskId | TaskGroupId} id - The ID of the task or task group to be removed.
+   * @throws {Error} Throws an error if the child does not exist or has already started.
+   */
+  removeChild = (id: TaskId | TaskGroupId) => {
+    const { node, parent } = this.findChild(id);
+    this.assertMutable();
+    if (this.abortController && this.hasStarted(node)) {
+      throw new Error(
+        `${describeNode(node)} has already started and cannot be removed`
+      );
+    }
+
+    parent.removeChild(id);
+    this.saveState();
+    this.emit("childRemoved", parent, node);
+  };
+
+  /**
+   * Moves a task or task group to another position in its group, also while the flow is running.
+   *
+   * During a run, only children that have not started can be moved, and not
+   * within a parallel group that is running. Emits 'childMoved' and saves a snapshot.
+   *
+   * @param {TaskId | TaskGroupId} id - The ID of the task or task group to be moved.
+   * @param {ChildPosition} position - Where to move the child.
+   * @throws {Error} Throws an error if the child or the sibling named in `position` does not exist,
+   *                 or if the child cannot be moved anymore.
+   */
+  moveChild = (id: TaskId | TaskGroupId, position: ChildPosition) => {
+    const { node, parent } = this.findChild(id);
+    this.assertMutable();
+    if (this.abortController) {
+      if (this.hasStarted(node)) {
+        throw new Error(
+          `${describeNode(node)} has already started and cannot be moved`
+        );
+      }
+      if (parent.parallel && this.hasStarted(parent)) {
+        throw new Error(
+          `The children of the running parallel group ${parent.id} ` +
+            "cannot be reordered"
+        );
+      }
+    }
+
+    parent.moveChild(id, position);
+    this.saveState();
+    this.emit("childMoved", parent, node);
+  };
+
+  /**
+   * Finds a task or task group anywhere in the flow along with the group holding it.
+   *
+   * @param {TaskId | TaskGroupId} id - The identifier to look for.
+   * @returns {Object | undefined} The node and its parent, which is undefined for top-level groups.
+   * @private
+   */
+  private findNode = (
+    id: TaskId | TaskGroupId
+  ): { node: Task | TaskGroup; parent?: TaskGroup } | undefined => {
+    const visit = (
+      taskGroup: TaskGroup
+    ): { node: Task | TaskGroup; parent: TaskGroup } | undefined => {
+      for (const child of taskGroup.children.values()) {
+        if (child.id === id) {
+          return { node: child, parent: taskGroup };
+        }
+        const found = child instanceof TaskGroup ? visit(child) : undefined;
+        if (found) {
+          return found;
+        }
+      }
+      return undefined;
+    };
+
+    for (const taskGroup of this.taskGroups.values()) {
+      if (taskGroup.id === id) {
+        return { node: taskGroup };
+      }
+      const found = visit(taskGroup);
+      if (found) {
+        return found;
+      }
+    }
+    return undefined;
+  };
+
+  private findChild = (id: TaskId | TaskGroupId) => {
+    const found = this.findNode(id);
+    if (!found) {
+      throw new Error(`Unknown task or task group ${id}`);
+    }
+    if (!found.parent) {
+      throw new Error(`Task group ${id} is a top-level group`);
+    }
+    return { node: found.node, parent: found.parent };
+  };
+
+  // The graph scheduler plans the whole run up front
+  private assertMutable = () => {
+    if (this.abortController && this.options.scheduler === "graph") {
+      throw new Error(
+        "Tasks cannot be added, removed or moved while the graph scheduler runs"
+      );
+    }
+  };
+
+  // Whether a task or group has been reached by the current run
+  private hasStarted = (node: Task | TaskGroup): boolean =>
+    node instanceof Task
+      ? (node.state || "not_started") !== "not_started"
+      : node.startTime !== undefined ||
+        Array.from(node.children.values()).some(this.hasStarted);
+
+  /**
+   * Executes a single task unless a pending jump targets a different task.
+   *
+   * A task asking for a jump that cannot be followed fails with an error
+   * explaining why, see `resolveJump()`.
+   *
+   * @param {Task} task - The task to be executed.
+   * @param {PendingJump} [jump] - The jump a previous task asked for, if any.
+   * @param {Span} [parentSpan] - The span of the enclosing task group, if traced.
+   * @returns {Promise<PendingJump | undefined>} The jump that applies to the tasks that follow.
+   * @private
+   */
+  private executeTask = async (
+    task: Task,
+    jump?: PendingJump,
+    parentSpan?: Span
+  ): Promise<PendingJump | undefined> => {
+    if (this.isResumedTaskDone(task)) {
+      return jump;
+    }
+
+    if (jump && task.id !== jump.target) {
+      task.state = "skipped";
+      task.skipReason = `Skipped by a jump from ${jump.from} to ${jump.target}`;
+      this.saveState();
+      await this.notify("taskSkipped", task);
+      return jump;
+    }
+
+    await this.waitWhilePaused();
+    if (!(await this.checkGuard(task))) {
+      task.state = "skipped";
+      task.skipReason = GUARD_SKIP_REASON;
+      this.saveState();
+      await this.notify("taskSkipped", task);
+      // A pending jump can only target this task, so it ends here
+      return undefined;
+    }
+    delete task.skipReason;
+    const span = this.options.tracer?.startSpan(`task ${task.id}`, {
+      kind: "task",
+      parent: parentSpan,
+      attributes: { "flow.task.id": task.id },
+    });
+    let releaseResources: (() => void) | undefined;
+    let warningTimer: ReturnType<typeof setTimeout> | undefined;
+    let nextJump: PendingJump | undefined;
+    try {
+      releaseResources = await this.acquireResources(task);
+      await this.notify("taskStarted", task);
+      if (task.softTimeout !== undefined) {
+        warningTimer = setTimeout(() => {
+          this.emit(
+            "taskWarning",
+            task,
+            `Task ${task.id} has been running for more than ${task.softTimeout}ms`
+          );
+        }, task.softTimeout);
+      }
+
+      const running = task.run({
+        signal: this.abortController?.signal,
+        onRetry: (retry) => {
+          this.saveState();
+          return this.notify("taskRetry", task, retry);
+        },
+        // Every attempt counts against the rate limits of the resources
+        beforeRetry: () => this.acquireResourceTokens(task),
+        inputs: this.inputs,
+        outputs: this.outputs,
+        scratch: this.scratch,
+      });
+      // The task is marked as in progress synchronously when it starts running
+      this.saveState();
+      const next = await running;
+      nextJump = next ? this.resolveJump(task, next) : undefined;
+    } catch (error) {
+      this.saveState();
+      if (releaseResources) {
+        this.traceAttempts(task, span);
+      } else {
+        // The task never ran, so the attempts it holds are from an earlier run
+        span?.setAttribute("flow.task.state", task.state || "not_started");
+      }
+      endSpan(span, error);
+      if (task.state === "failed" || task.state === "timed_out") {
+        this.failures.push({ taskId: task.id, error });
+        await this.notify("taskFailed", task, error);
+      }
+      throw error;
+    } finally {
+      clearTimeout(warningTimer);
+      releaseResources?.();
+    }
+
+    this.traceAttempts(task, span);
+    endSpan(span);
+
+    if (task.output !== undefined) {
+      this.outputs.set(task.id, task.output);
+    }
+    this.completedTasks.push(task);
+    this.saveState();
+    await this.notify("taskComplete", task);
+    return nextJump;
+  };
+
+  /**
+   * Evaluates the guard of a task before it runs.
+   *
+   * A guard that throws fails the task with its error.
+   *
+   * @param {Task} task - The task about to run.
+   * @returns {Promise<boolean>} False if the task has to be skipped.
+   * @private
+   */
+  private checkGuard = async (task: Task) => {
+    if (!task.guard) {
+      return true;
+    }
+    try {
+      return await task.guard({
+        taskId: task.id,
+        inputs: this.inputs,
+        outputs: this.outputs,
+      });
+    } catch (error) {
+      task.state = "failed";
+      this.failures.push({ taskId: task.id, error });
+      this.saveState();
+      await this.notify("taskFailed", task, error);
+      throw error;
+    }
+  };
+
+  /**
+   * Waits until every resource a task needs is available and acquires them.
+   *
+   * Resources are acquired in the order of their names, so tasks sharing
+   * several resources cannot deadlock. While the task waits, its state is
+   * 'waiting' and `waitingFor` lists the resources it does not hold yet.
+   *
+   * @param {Task} task - The task about to run.
+   * @returns {Promise<Function>} A function releasing the acquired resources.
+   * @throws {Error} Throws an error if a resource does not exist, or the abort reason if the run is
+   *                 cancelled while the task waits. Either way, the task is marked as failed,
+   *                 cancelled or timed out.
+   * @private
+   */
+  private acquireResources = async (task: Task) => {
+    const names = Array.from(new Set(task.resources || [])).sort();
+    const acquired: Resource[] = [];
+    const release = () =>
+      acquired
+        .splice(0)
+        .reverse()
+        .forEach((resource) => resource.release());
+
+    try {
+      for (const [index, name] of names.entries()) {
+        const resource = this.resources.get(name);
+        if (!resource) {
+          throw new Error(`Task ${task.id} requires unknown resource ${name}`);
+        }
+        if (!resource.tryAcquire()) {
+          task.state = "waiting";
+          task.waitingFor = names.slice(index);
+          this.saveState();
+          await this.notify("taskWaiting", task, task.waitingFor);
+          await resource.acquire(this.abortController?.signal);
+        }
+        acquired.push(resource);
+      }
+    } catch (error) {
+      release();
+      const signal = this.abortController?.signal;
+      task.state = signal?.aborted ? abortedState(signal.reason) : "failed";
+      throw error;
+    } finally {
+      delete task.waitingFor;
+    }
+    return release;
+  };
+
+  /**
+   * Takes another rate limit token from every resource a task holds, before the
+   * task is retried. Waits while a resource has no token left.
+   *
+   * @param {Task} task - The task about to be retried.
+   * @returns {Promise<void>} A promise that resolves once every token is taken.
+   * @throws {Error} Throws the abort reason if the run is cancelled while the task waits.
+   * @private
+   */
+  private acquireResourceTokens = async (task: Task) => {
+    const names = Array.from(new Set(task.resources || [])).sort();
+    for (const name of names) {
+      await this.resources
+        .get(name)!
+        .acquireToken(this.abortController?.signal);
+    }
+  };
+
+  /**
+   * Checks the jump a task asked for and turns it into a pending jump.
+   *
+   * The target has to exist and, with the `groups` scheduler, to be reachable
+   * going forward: later in the same group, or later in the flow for the `flow`
+   * scope. Jumps out of a task inside a parallel group are looked up after that
+   * group. An invalid jump marks the task and its last attempt as 'failed'.
+   *
+   * @param {Task} task - The task that asked for the jump.
+   * @param {TaskId | TaskGroupId | JumpDirective} next - What the task returned as `next`.
+   * @returns {PendingJump} The jump to apply to the tasks that follow.
+   * @throws {Error} Throws an error if the target does not exist or cannot be reached.
+   * @private
+   */
+  private resolveJump = (
+    task: Task,
+    next: TaskId | TaskGroupId | JumpDirective
+  ): PendingJump => {
+    const { target, scope = "flow" } =
+      typeof next === "string" ? { target: next } : next;
+    const fail = (message: string) => {
+      const error = new Error(message);
+      const attempt = task.attempts[task.attempts.length - 1];
+      task.state = "failed";
+      attempt.state = "failed";
+      attempt.error = error;
+      return error;
+    };
+
+    const ancestors = this.getAncestors(task);
+    const exists = Array.from(this.taskGroups.values()).some(
+      (taskGroup) => taskGroup.id === target || taskGroup.contains(target)
+    );
+    if (!exists || !ancestors) {
+      throw fail(`Task ${task.id} jumped to unknown task or group ${target}`);
+    }
+    if (this.options.scheduler === "graph") {
+      return { target, from: task.id };
+    }
+
+    const comesAfter = (
+      siblings: Iterable<Task | TaskGroup>,
+      current: Task | TaskGroup
+    ) => {
+      let passed = false;
+      for (const sibling of siblings) {
+        if (
+          passed &&
+          (sibling.id === target ||
+            (sibling instanceof TaskGroup && sibling.contains(target)))
+        ) {
+          return true;
+        }
+        passed = passed || sibling === current;
+      }
+      return false;
+    };
+
+    let current: Task | TaskGroup = task;
+    for (const parent of [...ancestors].reverse()) {
+      if (scope === "group" && parent.parallel) {
+        throw fail(
+          `Task ${task.id} cannot skip to ${target} within the parallel group ${parent.id}`
+        );
+      }
+      if (!parent.parallel && comesAfter(parent.children.values(), current)) {
+        return { target, from: task.id };
+      }
+      if (scope === "group") {
+        throw fail(
+          `Task ${task.id} can only skip to a task or group after it in ${parent.id}, not to ${target}`
+        );
+      }
+      current = parent;
+    }
+    if (comesAfter(this.taskGroups.values(), current)) {
+      return { target, from: task.id };
+    }
+    throw fail(
+      `Task ${task.id} cannot jump back to ${target}, jumps only go forward`
+    );
+  };
+
+  /**
+   * Finds the task groups enclosing a task or task group.
+   *
+   * @param {Task | TaskGroup} node - The task or task group to look for.
+   * @returns {TaskGroup[] | undefined} The enclosing groups from the outermost inwards, or undefined if
+   *                                    the node is not part of the flow.
+   * @private
+   */
+  private getAncestors = (node: Task | TaskGroup) => {
+    const visit = (
+      taskGroup: TaskGroup,
+      path: TaskGroup[]
+    ): TaskGroup[] | undefined => {
+      const groupPath = [...path, taskGroup];
+      for (const child of taskGroup.children.values()) {
+        if (child === node) {
+          return groupPath;
+        }
+        const found =
+          child instanceof TaskGroup ? visit(child, groupPath) : undefined;
+        if (found) {
+          return found;
+        }
+      }
+      return undefined;
+    };
+
+    for (const taskGroup of this.taskGroups.values()) {
+      if (taskGroup === node) {
+        return [];
+      }
+      const found = visit(taskGroup, []);
+      if (found) {
+        return found;
+      }
+    }
+    return undefined;
+  };
+
+  /**
+   * Records the attempts of the current execution of a task as children of its span.
+   *
+   * Attempts are only known once they settled, so their spans are created after
+   * the fact with the recorded start and end times. `Task.run()` starts a fresh
+   * list of attempts, so attempts restored from a snapshot are never included.
+   *
+   * @param {Task} task - The task whose attempts are recorded.
+   * @param {Span} [span] - The span of the task, nothing is recorded without one.
+   * @private
+   */
+  private traceAttempts = (task: Task, span?: Span) => {
+    if (!span) {
+      return;
+    }
+    task.attempts.forEach((attempt) => {
+      const attemptSpan = this.options.tracer!.startSpan(
+        `attempt ${attempt.attempt}`,
+        {
+          kind: "attempt",
+          parent: span,
+          startTime: attempt.startTime,
+          attributes: {
+            "flow.task.id": task.id,
+            "flow.attempt.number": attempt.attempt,
+            "flow.attempt.state": attempt.state,
+          },
+        }
+      );
+      if (attempt.delay !== undefined) {
+        attemptSpan.setAttribute("flow.attempt.retry_delay", attempt.delay);
+      }
+      endSpan(
+        attemptSpan,
+        attempt.state === "completed" ? undefined : attempt.error,
+        attempt.endTime
+      );
+    });
+    span
+      .setAttribute("flow.task.state", task.state || "not_started")
+      .setAttribute("flow.task.attempts", task.attempts.length);
+  };
+
+  /**
+   * Emits an event, waiting for asynchronous listeners when `awaitListeners` is set.
+   *
+   * @param {string} event - The name of the event.
+   * @param {...any} args - The arguments handed to the listeners.
+   * @private
+   */
+  private notify = async <E extends keyof FlowControlEvents>(
+    event: E,
+    ...args: FlowControlEvents[E]
+  ) => {
+    if (this.options.awaitListeners) {
+      await this.emitAsync(event, ...args);
+    } else {
+      this.emit(event, ...args);
+    }
+  };
+
+  /**
+   * Queues a snapshot of the current state for the configured state store.
+   *
+   * Snapshots are taken right away but written one after the other, so the store
+   * always ends up with the latest one. Failures are reported through the `error`
+   * event and do not interrupt the flow.
+   *
+   * @private
+   */
+  private saveState = () => {
+    const stateStore = this.options.stateStore;
+    if (!stateStore) {
+      return;
+    }
+
+    const state = this.getSerializedState();
+    this.pendingSave = this.pendingSave
+      .then(() => stateStore.save(state))
+      .catch((error) => this.emit("error", error));
+  };
+
+  /**
+   * Creates a handler counting failing children against a failure policy.
+   *
+   * The handler swallows failures the policy tolerates and rethrows the one that
+   * breaches it. Aborts are always rethrown since they are not failures.
+   *
+   * @param {FailurePolicy} policy - The failure policy to enforce.
+   * @returns {Function} The handler to attach to each child's promise.
+   * @private
+   */
+  private createFailureHandler = (policy: FailurePolicy) => {
+    let failures = 0;
+    return (error: unknown): undefined => {
+      if (this.abortController?.signal.aborted) {
+        throw error;
+      }
+      failures++;
+      if (isPolicyBreached(policy, failures)) {
+        throw error;
+      }
+      return undefined;
+    };
+  };
+
+  private getFailurePolicy = (taskGroup?: TaskGroup): FailurePolicy =>
+    taskGroup?.failurePolicy || this.options.failurePolicy || "fail-fast";
+
+  private runChild = (
+    child: Task | TaskGroup,
+    jump?: PendingJump,
+    parentSpan?: Span
+  ) =>
+    child instanceof Task
+      ? this.executeTask(child, jump, parentSpan)
+      : this.runTaskGroup(child, jump, parentSpan);
+
+  /**
+   * Executes the children of a parallel task group under its concurrency limit.
+   *
+   * A pending jump is resolved against the children in insertion order before
+   * anything starts, so every child knows up front whether it is skipped and
+   * concurrently finishing siblings cannot change that decision. Jumps returned
+   * by the children are applied once the whole group has settled; when several
+   * children return one, the last child in insertion order wins.
+   *
+   * Children removed before they start are left out. Children added while the
+   * group runs are started once the children known before have settled.
+   *
+   * @param {TaskGroup} taskGroup - The task group to be executed.
+   * @param {PendingJump} [jump] - The jump a previous task asked for, if any.
+   * @param {Span} [parentSpan] - The span of the task group, if traced.
+   * @returns {Promise<PendingJump | undefined>} The jump that applies after the group.
+   * @private
+   */
+  private runParallelChildren = async (
+    taskGroup: TaskGroup,
+    jump?: PendingJump,
+    parentSpan?: Span
+  ): Promise<PendingJump | undefined> => {
+    const children = Array.from(taskGroup.children.values());
+    const incoming: (PendingJump | undefined)[] = [];
+    let pendingJump = jump;
+    let resolvedIndex = 0;
+
+    children.forEach((child, index) => {
+      incoming.push(pendingJump);
+      if (!pendingJump) {
+        return;
+      }
+
+      const isTarget =
+        child.id === pendingJump.target ||
+        (child instanceof TaskGroup && child.contains(pendingJump.target));
+      if (isTarget) {
+        pendingJump = undefined;
+        resolvedIndex = index;
+      }
+    });
+
+    const visited = new Set<Task | TaskGroup>();
+    if (pendingJump) {
+      // Nothing in this group is the jump target, so every child is skipped
+      let child: Task | TaskGroup | undefined;
+      while ((child = nextUnvisited(taskGroup.children, visited))) {
+        visited.add(child);
+        await this.runChild(child, pendingJump, parentSpan);
+      }
+      return pendingJump;
+    }
+
+    const onFailure = this.createFailureHandler(
+      this.getFailurePolicy(taskGroup)
+    );
+    const results: (PendingJump | undefined)[] = [];
+    let batch = children;
+    let offset = 0;
+    while (batch.length > 0) {
+      batch.forEach((child) => visited.add(child));
+      const batchOffset = offset;
+      await runWithConcurrency(
+        batch,
+        taskGroup.maxConcurrency,
+        async (child, index) => {
+          if (taskGroup.children.get(child.id) !== child) {
+            return;
+          }
+          results[batchOffset + index] = await this.runChild(
+            child,
+            incoming[batchOffset + index],
+            parentSpan
+          ).catch(onFailure);
+        }
+      );
+      offset += batch.length;
+      batch = Array.from(taskGroup.children.values()).filter(
+        (child) => !visited.has(child)
+      );
+    }
+
+    let outgoing: PendingJump | undefined;
+    for (let index = resolvedIndex; index < results.length; index++) {
+      outgoing = results[index] || outgoing;
+    }
+    return outgoing;
+  };
+
+  /**
+   * Executes a task group and its child tasks recursively.
+   * Emits a 'success' event upon completion of a task group.
+   *
+   * Failing children are handled according to the group's failure policy. Once
+   * the policy is breached, no further child is started and the error of the
+   * child that breached it is thrown.
+   *
+   * A pending jump targeting the group itself ends there and the group runs
+   * as usual.
+   *
+   * @param {TaskGroup} taskGroup - The task group to be executed.
+   * @param {PendingJump} [jump] - The jump a previous task asked for, if any.
+   * @param {Span} [parentSpan] - The span of the enclosing task group or run, if traced.
+   * @returns {Promise<PendingJump | undefined>} The jump that applies after the group.
+   * @private
+   */
+
+  private runTaskGroup = async (
+    taskGroup: TaskGroup,
+    jump?: PendingJump,
+    parentSpan?: Span
+  ): Promise<PendingJump | undefined> => {
+    if (this.isResumedGroupDone(taskGroup)) {
+      return jump?.target === taskGroup.id ? undefined : jump;
+    }
+
+    const startTime = Date.now();
+    taskGroup.startTime = startTime;
+    delete taskGroup.time;
+    const span = this.startGroupSpan(taskGroup, parentSpan);
+
+    let pendingJump = jump?.target === taskGroup.id ? undefined : jump;
+    try {
+      // Restored map groups keep the tasks of the snapshot, skipped ones never compute their items
+      const mustExpand =
+        taskGroup instanceof MapTaskGroup &&
+        !pendingJump &&
+        !(this.resuming && taskGroup.expanded);
+      if (mustExpand) {
+        await this.expandMapGroup(taskGroup, span);
+      }
+      if (taskGroup.parallel) {
+        pendingJump = await this.runParallelChildren(
+          taskGroup,
+          pendingJump,
+          span
+        );
+      } else {
+        const onFailure = this.createFailureHandler(
+          this.getFailurePolicy(taskGroup)
+        );
+        // Children are picked one at a time, so changes made during the run apply
+        const visited = new Set<Task | TaskGroup>();
+        let child: Task | TaskGroup | undefined;
+        while ((child = nextUnvisited(taskGroup.children, visited))) {
+          visited.add(child);
+          this.abortController?.signal.throwIfAborted();
+          pendingJump = await this.runChild(child, pendingJump, span).catch(
+            onFailure
+          );
+        }
+      }
+    } catch (error) {
+      endSpan(span, error);
+      throw error;
+    } finally {
+      taskGroup.time = Date.now() - startTime;
+      this.saveState();
+    }
+    endSpan(span);
+
+    await this.notify("success", `task-group-completed: ${taskGroup.id}`);
+    return pendingJump;
+  };
+
+  /**
+   * Checks whether a resumed run can leave a task alone.
+   *
+   * Completed tasks are never run again. Skipped tasks are kept as they are with the
+   * `groups` scheduler, where they were skipped by a jump. With the `graph` scheduler
+   * they were skipped because a predecessor failed, so they run again.
+   *
+   * @param {Task} task - The task to check.
+   * @param {boolean} [resuming] - Whether the run is resumed, the current run's by default.
+   * @returns {boolean} True if the run is resuming and the task is already done.
+   * @private
+   */
+  private isResumedTaskDone = (task: Task, resuming = this.resuming) =>
+    resuming &&
+    (task.state === "completed" ||
+      (task.state === "skipped" && this.options.scheduler !== "graph"));
+
+  private startGroupSpan = (taskGroup: TaskGroup, parentSpan?: Span) =>
+    this.options.tracer?.startSpan(`group ${taskGroup.id}`, {
+      kind: "group",
+      parent: parentSpan,
+      attributes: {
+        "flow.group.id": taskGroup.id,
+        "flow.group.parallel": taskGroup.parallel,
+      },
+    });
+
+  private isResumedGroupDone = (
+    taskGroup: TaskGroup,
+    resuming = this.resuming
+  ): boolean => {
+    if (taskGroup instanceof MapTaskGroup && !taskGroup.expanded) {
+      // Only a map group skipped by a jump finishes without its tasks
+      return (
+        resuming &&
+        taskGroup.time !== undefined &&
+        taskGroup.expansionError === undefined
+      );
+    }
+    return (
+      resuming &&
+      Array.from(taskGroup.children.values()).every((child) =>
+        child instanceof Task
+          ? this.isResumedTaskDone(child, resuming)
+          : this.isResumedGroupDone(child, resuming)
+      )
+    );
+  };
+
+  /**
+   * Computes the items of a map task group and generates its tasks.
+   *
+   * @param {MapTaskGroup} taskGroup - The map task group about to run.
+   * @param {Span} [span] - The span of the task group, if traced.
+   * @throws {Error} Throws an error if computing the items fails or does not return an array.
+   * @private
+   */
+  private expandMapGroup = async (taskGroup: MapTaskGroup, span?: Span) => {
+    const signal = this.abortController!.signal;
+    taskGroup.collapse();
+    let tasks: Task[];
+    try {
+      const items = await raceSignal(
+        Promise.resolve().then(() =>
+          taskGroup.items({
+            signal,
+            inputs: this.inputs,
+            outputs: this.outputs,
+            scratch: this.scratch,
+          })
+        ),
+        signal
+      );
+      if (!Array.isArray(items)) {
+        throw new Error(
+          `The items of map task group ${taskGroup.id} are not an array`
+        );
+      }
+      tasks = taskGroup.expand(items);
+    } catch (error) {
+      taskGroup.collapse();
+      taskGroup.expansionError = error;
+      throw error;
+    }
+    span?.setAttribute("flow.group.items", tasks.length);
+    this.saveState();
+    await this.notify("taskGroupExpanded", taskGroup, tasks);
+  };
+
+  /**
+   * Invokes a callback for every task in the flow, depth first in insertion order.
+   *
+   * @param {Function} callback - The function invoked with each task.
+   * @private
+   */
+  private forEachTask = (callback: (task: Task) => void) => {
+    const visit = (taskGroup: TaskGroup) => {
+      taskGroup.children.forEach((child) => {
+        if (child instanceof Task) {
+          callback(child);
+        } else {
+          visit(child);
+        }
+      });
+    };
+    this.taskGroups.forEach(visit);
+  };
+
+  private assertKnownResources = () => {
+    this.forEachTask((task) => {
+      (task.resources || []).forEach((name) => {
+        if (!this.resources.has(name)) {
+          throw new Error(`Task ${task.id} requires unknown resource ${name}`);
+        }
+      });
+    });
+  };
+
+  /**
+   * Builds the dependency graph of every task in the flow.
+   *
+   * Each task becomes a node, and every `nextTasks` and `dependsOn` entry
+   * becomes an edge pointing from the task that has to finish first to the task
+   * waiting on it. Edges may cross task group boundaries.
+   *
+   * @returns {DependencyGraph} The dependency graph of the flow.
+   * @throws {Error} Throws an error if a task references a task id that does not exist.
+   */
+  getDependencyGraph = () => {
+    const graph = new DependencyGraph();
+    const tasks: Task[] = [];
+    this.forEachTask((task) => {
+      tasks.push(task);
+      graph.addNode(task.id);
+    });
+
+    const link = (from: TaskId, to: TaskId, source: Task) => {
+      if (!graph.hasNode(from) || !graph.hasNode(to)) {
+        throw new Error(
+          `Task ${source.id} references unknown task ${
+            graph.hasNode(from) ? to : from
+          }`
+        );
+      }
+      graph.addEdge(from, to);
+    };
+    tasks.forEach((task) => {
+      (task.nextTasks || []).forEach((next) => link(task.id, next, task));
+      (task.dependsOn || []).forEach((dep) => link(dep, task.id, task));
+    });
+
+    return graph;
+  };
+
+  /**
+   * Checks the tasks and task groups of the flow for mistakes, without running anything.
+   *
+   * Errors are reported for ids shared by several tasks or groups anywhere in
+   * the tree, children and groups replaced by another one with the same id,
+   * `nextTasks` and `dependsOn` entries naming unknown tasks, resources that are
+   * not declared, dependency cycles and invalid task options such as negative
+   * `retries` or `waitTime`. Groups without children are reported as warnings,
+   * except for map task groups, which only get their tasks when they run.
+   *
+   * Diagnostics are addressed like the entries of the serialized state, e.g.
+   * `$["Provision"].children["Setup"].retries`.
+   *
+   * @returns {FlowDiagnostic[]} Every problem found, empty if the flow is valid.
+   *
+   * @example
+   * const errors = flowControl.validate().filter(({ severity }) => severity === 'error');
+   * if (errors.length > 0) {
+   *   throw new FlowValidationError(errors);
+   * }
+   */
+  validate = (): FlowDiagnostic[] => {
+    const diagnostics: FlowDiagnostic[] = [];
+    const report = (
+      code: FlowDiagnostic["code"],
+      path: string,
+      message: string,
+      severity: FlowDiagnostic["severity"] = "error"
+    ) => diagnostics.push({ path, message, code, severity });
+    const childPath = (path: string, id: string) =>
+      `${path}.children[${JSON.stringify(id)}]`;
+
+    const checkNumber = (
+      task: Task,
+      key: "retries" | "waitTime" | "timeout" | "softTimeout",
+      path: string,
+      integer = false
+    ) => {
+      const number = task[key];
+      if (
+        number !== undefined &&
+        (!(number >= 0) || (integer && !Number.isInteger(number)))
+      ) {
+        report(
+          "invalid_option",
+          `${path}.${key}`,
+          `Expected ${integer ? "an integer" : "a number"} of at least 0`
+        );
+      }
+    };
+
+    const paths = new Map<string, string>();
+    const tasks: Array<{ task: Task; path: string }> = [];
+    const visit = (node: Task | TaskGroup, path: string) => {
+      const previous = paths.get(node.id);
+      if (previous !== undefined) {
+        report(
+          "duplicate_id",
+          path,
+          `Duplicate id "${node.id}", first used at ${previous}`
+        );
+      } else {
+        paths.set(node.id, path);
+      }
+
+      if (node instanceof Task) {
+        tasks.push({ task: node, path });
+        checkNumber(node, "retries", path, true);
+        checkNumber(node, "waitTime", path);
+        checkNumber(node, "timeout", path);
+        checkNumber(node, "softTimeout", path);
+        (node.resources || []).forEach((name, index) => {
+          if (!this.resources.has(name)) {
+            report(
+              "unknown_reference",
+              `${path}.resources[${index}]`,
+              `Unknown resource ${name}`
+            );
+          }
+        });
+        return;
+      }
+
+      node.replacedChildren.forEach((child) =>
+        report(
+          "duplicate_id",
+          childPath(path, child.id),
+          `${describeNode(child)} was replaced by another child with the same id`
+        )
+      );
+      if (node.children.size === 0 && !(node instanceof MapTaskGroup)) {
+        report("empty_group", path, "Task group has no children", "warning");
+      }
+      node.children.forEach((child, id) => visit(child, childPath(path, id)));
+    };
+    this.replacedGroups.forEach((taskGroup) =>
+      report(
+        "duplicate_id",
+        `$[${JSON.stringify(taskGroup.id)}]`,
+        `${describeNode(taskGroup)} was replaced by another group with the same id`
+      )
+    );
+    this.taskGroups.forEach((taskGroup, id) =>
+      visit(taskGroup, `$[${JSON.stringify(id)}]`)
+    );
+
+    // Unknown references are left out of the graph so cycles can still be found
+    const graph = new DependencyGraph();
+    tasks.forEach(({ task }) => graph.addNode(task.id));
+    tasks.forEach(({ task, path }) => {
+      (["nextTasks", "dependsOn"] as const).forEach((key) => {
+        (task[key] || []).forEach((id, index) => {
+          if (!graph.hasNode(id)) {
+            report(
+              "unknown_reference",
+              `${path}.${key}[${index}]`,
+              `Unknown task ${id}`
+            );
+          } else if (key === "nextTasks") {
+            graph.addEdge(task.id, id);
+          } else {
+            graph.addEdge(id, task.id);
+          }
+        });
+      });
+    });
+    const cycle = graph.findCycle();
+    if (cycle) {
+      report(
+        "dependency_cycle",
+        paths.get(cycle[0])!,
+        `Dependency cycle detected: ${cycle.join(" -> ")}`
+      );
+    }
+
+    return diagnostics;
+  };
+
+  /**
+   * Executes every task according to the dependency graph.
+   *
+   * Tasks start as soon as all of their predecessors have completed. When a task
+   * fails, all of its descendants are marked as skipped while unrelated tasks keep
+   * running. Once nothing is left to run, the first failure is rethrown. Group
+   * times span from the first of their tasks starting to the last one settling.
+   * Jump targets returned by tasks are ignored by this scheduler.
+   *
+   * @param {Span} [flowSpan] - The span of the run, if traced.
+   * @throws {Error} Throws an error before anything runs if the graph references unknown tasks or contains a cycle.
+   * @private
+   */
+  private runGraph = async (flowSpan?: Span) => {
+    const graph = this.getDependencyGraph();
+    const cycle = graph.findCycle();
+    if (cycle) {
+      throw new Error(`Dependency cycle detected: ${cycle.join(" -> ")}`);
+    }
+
+    const tasks = new Map<TaskId, Task>();
+    const ancestors = new Map<TaskId, TaskGroup[]>();
+    const unsettledTasks = new Map<TaskGroup, number>();
+    const collect = (taskGroup: TaskGroup, path: TaskGroup[]) => {
+      if (taskGroup instanceof MapTaskGroup) {
+        throw new Error(
+          `Map task group ${taskGroup.id} needs the groups scheduler`
+        );
+      }
+      const groupPath = [...path, taskGroup];
+      unsettledTasks.set(taskGroup, 0);
+      taskGroup.children.forEach((child) => {
+        if (child instanceof Task) {
+          tasks.set(child.id, child);
+          ancestors.set(child.id, groupPath);
+          if (!this.isResumedTaskDone(child)) {
+            groupPath.forEach((group) =>
+              unsettledTasks.set(group, unsettledTasks.get(group)! + 1)
+            );
+          }
+        } else {
+          collect(child, groupPath);
+        }
+      });
+    };
+    this.taskGroups.forEach((taskGroup) => collect(taskGroup, []));
+    unsettledTasks.forEach((count, group) => {
+      if (count > 0) {
+        delete group.startTime;
+        delete group.time;
+      } else if (!this.resuming) {
+        // Groups finished by an earlier run keep their restored time
+        group.time = 0;
+        this.emit("success", `task-group-completed: ${group.id}`);
+      }
+    });
+
+    const spans = new Map<TaskGroup, Span>();
+    const groupErrors = new Map<TaskGroup, unknown>();
+    const markStarted = (taskId: TaskId) => {
+      let parentSpan = flowSpan;
+      ancestors.get(taskId)!.forEach((group) => {
+        if (group.startTime === undefined) {
+          group.startTime = Date.now();
+          const span = this.startGroupSpan(group, parentSpan);
+          if (span) {
+            spans.set(group, span);
+          }
+        }
+        parentSpan = spans.get(group);
+      });
+      return parentSpan;
+    };
+    const settled = new Set<TaskId>();
+    const markSettled = (taskId: TaskId) => {
+      if (settled.has(taskId)) {
+        return;
+      }
+      settled.add(taskId);
+      // Walk from the innermost group outwards so nested groups complete first
+      [...ancestors.get(taskId)!].reverse().forEach((group) => {
+        const remaining = unsettledTasks.get(group)! - 1;
+        unsettledTasks.set(group, remaining);
+        if (remaining === 0) {
+          group.time = Date.now() - (group.startTime ?? Date.now());
+          endSpan(spans.get(group), groupErrors.get(group));
+          this.emit("success", `task-group-completed: ${group.id}`);
+        }
+      });
+    };
+
+    const pendingPredecessors = new Map<TaskId, number>();
+    const ready: TaskId[] = [];
+    graph.getNodes().forEach((taskId) => {
+      if (this.isResumedTaskDone(tasks.get(taskId)!)) {
+        settled.add(taskId);
+        return;
+      }
+
+      const count = graph
+        .predecessors(taskId)
+        .filter((predecessor) => !this.isResumedTaskDone(tasks.get(predecessor)!))
+        .length;
+      pendingPredecessors.set(taskId, count);
+      if (count === 0) {
+        ready.push(taskId);
+      }
+    });
+
+    const signal = this.abortController?.signal;
+    const limit = this.options.maxConcurrency ?? Infinity;
+    const inFlight = new Set<Promise<void>>();
+    const errors: unknown[] = [];
+    const onFailure = this.createFailureHandler(this.getFailurePolicy());
+
+    const start = (taskId: TaskId) => {
+      const parentSpan = markStarted(taskId);
+      const promise = this.executeTask(
+        tasks.get(taskId)!,
+        undefined,
+        parentSpan
+      )
+        .then(
+          () => {
+            graph.successors(taskId).forEach((next) => {
+              const remaining = pendingPredecessors.get(next)! - 1;
+              pendingPredecessors.set(next, remaining);
+              if (remaining === 0) {
+                ready.push(next);
+              }
+            });
+          },
+          async (error) => {
+            ancestors.get(taskId)!.forEach((group) => {
+              if (!groupErrors.has(group)) {
+                groupErrors.set(group, error);
+              }
+            });
+            try {
+              onFailure(error);
+            } catch {
+              errors.push(error);
+            }
+            if (signal?.aborted) {
+              return;
+            }
+            const skipped = graph
+              .descendants(taskId)
+              .filter((descendant) => !settled.has(descendant))
+              .map((descendant) => {
+                const task = tasks.get(descendant)!;
+                task.state = "skipped";
+                task.skipReason = `Skipped because ${taskId} failed`;
+                markSettled(descendant);
+                return task;
+              });
+            for (const task of skipped) {
+              await this.notify("taskSkipped", task);
+            }
+            this.saveState();
+          }
+        )
+        .then(() => {
+          markSettled(taskId);
+          inFlight.delete(promise);
+        });
+      inFlight.add(promise);
+    };
+
+    const canStart = () => errors.length === 0 && !signal?.aborted;
+    while ((ready.length > 0 && canStart()) || inFlight.size > 0) {
+      while (ready.length > 0 && inFlight.size < limit && canStart()) {
+        start(ready.shift()!);
+      }
+      if (inFlight.size > 0) {
+        await Promise.race(inFlight);
+      }
+    }
+
+    // Groups left unfinished by an abort or a breached failure policy stop their clock here
+    unsettledTasks.forEach((_count, group) => {
+      if (group.startTime !== undefined && group.time === undefined) {
+        group.time = Date.now() - group.startTime;
+        endSpan(
+          spans.get(group),
+          groupErrors.get(group) ?? signal?.reason ?? errors[0]
+        );
+      }
+    });
+
+    signal?.throwIfAborted();
+    if (errors.length > 0) {
+      throw errors[0];
     }
-    this.emit("taskComplete", task);
   };
 
   /**
-   * Executes a task group and its child tasks recursively.
-   * Emits a 'success' event upon completion of a task group.
+   * Previews what a run would do, without executing any task.
    *
-   * @param {TaskGroup} taskGroup - The task group to be executed.
+   * Every task group is walked the way the configured scheduler would reach it,
+   * and the guard of every task that would run is evaluated. With `resume`, the
+   * current task states are taken into account like `run({ resume: true })`
+   * would, typically after `restoreState()`. No task state is changed.
+   *
+   * The plan cannot foresee what happens while tasks run: jumps and failures are
+   * not predicted, and the tasks of a map task group are only known once it
+   * computes its items, so it is listed on its own.
+   *
+   * @param {PlanOptions} [options] - The run to plan.
+   * @returns {Promise<ExecutionPlan>} The steps of the run, in the order it would reach them, and the
+   *                                   dependencies between tasks.
+   * @throws {Error} Throws the errors the run would fail with before running anything, such as a task
+   *                 referencing an unknown task or resource, and the error of a guard that throws.
+   *
+   * @example
+   * flowControl.restoreState(await stateStore.load());
+   * const plan = await flowControl.plan({ resume: true });
+   * console.log(formatPlan(plan));
+   */
+  plan = async (options: PlanOptions = {}): Promise<ExecutionPlan> => {
+    const resuming = options.resume || false;
+    const scheduler = this.options.scheduler || "groups";
+    const graph = this.getDependencyGraph();
+    const cycle = scheduler === "graph" ? graph.findCycle() : undefined;
+    if (cycle) {
+      throw new Error(`Dependency cycle detected: ${cycle.join(" -> ")}`);
+    }
+    this.assertKnownResources();
+
+    const inputs = options.inputs || {};
+    const outputs = new Map<TaskId, unknown>();
+    if (resuming) {
+      this.forEachTask((task) => {
+        if (task.state === "completed" && task.output !== undefined) {
+          outputs.set(task.id, task.output);
+        }
+      });
+    }
+
+    const planTask = async (task: Task, path: string[]): Promise<PlanStep> => {
+      const step = { id: task.id, type: "task" as const, path };
+      if (this.isResumedTaskDone(task, resuming)) {
+        if (task.state === "completed") {
+          return { ...step, action: "completed" };
+        }
+        const skipped: PlanStep = { ...step, action: "skip" };
+        if (task.skipReason !== undefined) {
+          skipped.reason = task.skipReason;
+        }
+        return skipped;
+      }
+      if (
+        task.guard &&
+        !(await task.guard({ taskId: task.id, inputs, outputs }))
+      ) {
+        return { ...step, action: "skip", reason: GUARD_SKIP_REASON };
+      }
+      return { ...step, action: "run" };
+    };
+
+    const steps: PlanStep[] = [];
+    const visit = async (taskGroup: TaskGroup, path: string[]) => {
+      const step: PlanStep = {
+        id: taskGroup.id,
+        type: "task-group",
+        path,
+        action: this.isResumedGroupDone(taskGroup, resuming)
+          ? "completed"
+          : "run",
+      };
+      steps.push(step);
+      if (taskGroup instanceof MapTaskGroup) {
+        if (scheduler === "graph") {
+          throw new Error(
+            `Map task group ${taskGroup.id} needs the groups scheduler`
+          );
+        }
+        // A fresh run computes the items again, a resumed one keeps the tasks it restored
+        if (!(resuming && taskGroup.expanded)) {
+          if (step.action === "run") {
+            step.reason = "Its tasks are created from its items when it runs";
+          }
+          return;
+        }
+      }
+      const childPath = [...path, taskGroup.id];
+      for (const child of taskGroup.children.values()) {
+        if (child instanceof Task) {
+          steps.push(await planTask(child, childPath));
+        } else {
+          await visit(child, childPath);
+        }
+      }
+    };
+    for (const taskGroup of this.taskGroups.values()) {
+      await visit(taskGroup, []);
+    }
+
+    const taskIds = new Set(
+      steps.filter((step) => step.type === "task").map((step) => step.id)
+    );
+    const edges = graph
+      .getNodes()
+      .filter((from) => taskIds.has(from))
+      .flatMap((from) =>
+        graph.successors(from).map((to): PlanEdge => [from, to])
+      );
+    return {
+      scheduler,
+      steps: scheduler === "graph" ? this.orderByGraph(steps, graph) : steps,
+      edges,
+    };
+  };
+
+  /**
+   * Orders the steps of a plan the way the `graph` scheduler would start them.
+   *
+   * Tasks are listed once all of their predecessors are, ties going to the
+   * first task in insertion order, and each group right before its first task.
+   * Groups without any task come first, since they complete straight away.
+   *
+   * @param {PlanStep[]} steps - The steps in insertion order.
+   * @param {DependencyGraph} graph - The dependency graph of the flow.
+   * @returns {PlanStep[]} The ordered steps.
    * @private
    */
+  private orderByGraph = (steps: PlanStep[], graph: DependencyGraph) => {
+    const groupKey = (path: string[]) => JSON.stringify(path);
+    const groups = new Map<string, PlanStep>();
+    const tasks = new Map<TaskId, PlanStep>();
+    const usedGroups = new Set<string>();
+    steps.forEach((step) => {
+      if (step.type === "task-group") {
+        groups.set(groupKey([...step.path, step.id]), step);
+      } else {
+        tasks.set(step.id, step);
+        step.path.forEach((_id, depth) =>
+          usedGroups.add(groupKey(step.path.slice(0, depth + 1)))
+        );
+      }
+    });
 
-  private runTaskGroup = async (taskGroup: TaskGroup) => {
-    const tasks = Array.from(taskGroup.children.values());
-    for (const task of tasks) {
-      if (task instanceof Task) {
-        await this.executeTask(task);
+    const ordered = Array.from(groups.entries())
+      .filter(([key]) => !usedGroups.has(key))
+      .map(([, step]) => step);
+    const listed = new Set<string>();
+    const list = (task: PlanStep) => {
+      task.path.forEach((_id, depth) => {
+        const key = groupKey(task.path.slice(0, depth + 1));
+        if (!listed.has(key)) {
+          listed.add(key);
+          ordered.push(groups.get(key)!);
+        }
+      });
+      ordered.push(task);
+    };
+
+    const position = new Map(
+      Array.from(tasks.keys()).map((taskId, index) => [taskId, index])
+    );
+    const remaining = new Map<TaskId, number>();
+    const ready: TaskId[] = [];
+    tasks.forEach((_step, taskId) => {
+      remaining.set(taskId, graph.predecessors(taskId).length);
+      if (remaining.get(taskId) === 0) {
+        ready.push(taskId);
+      }
+    });
+    while (ready.length > 0) {
+      ready.sort((a, b) => position.get(a)! - position.get(b)!);
+      const taskId = ready.shift()!;
+      list(tasks.get(taskId)!);
+      graph.successors(taskId).forEach((next) => {
+        remaining.set(next, remaining.get(next)! - 1);
+        if (remaining.get(next) === 0) {
+          ready.push(next);
+        }
+      });
+    }
+    return ordered;
+  };
+
+  /**
+   * Executes all task groups managed by the FlowControl instance.
+   *
+   * With the `graph` scheduler, tasks are run according to their dependencies
+   * instead of the group order.
+   *
+   * The run can be cancelled through `options.signal` or `flow.cancel()`. Once
+   * cancelled, the signal passed to every running `execute` is aborted, retry waits
+   * are interrupted, every task that had not finished is marked as 'cancelled', a
+   * `cancelled` event is emitted and the returned promise rejects with the abort reason.
+   *
+   * Passing the `deadline` works the same way, except that running tasks are marked
+   * as 'timed_out', a `timedOut` event is emitted instead and the promise rejects with
+   * a `TimeoutError`.
+   *
+   * Every task is reset to 'not_started' before the run, unless `resume` is set. A
+   * resumed run keeps the current task states and only executes the tasks that did
+   * not complete. Each run starts with an empty scratch store and, unless resumed,
+   * without any task outputs.
+   *
+   * Failing tasks are handled according to the failure policies of their groups
+   * and of the flow. When a policy is breached, the promise rejects with the error
+   * of the task that breached it, after rolling the flow back if the `rollback`
+   * option is set. Otherwise it resolves with a result listing every tolerated failure.
+   *
+   * When a state store is configured, the returned promise settles only after the
+   * final snapshot has been saved.
+   *
+   * With the `validate` option, a flow for which `validate()` reports errors is
+   * not run and the promise rejects with a `FlowValidationError` listing them.
+   *
+   * @param {RunOptions} [options] - Options for this run.
+   * @returns {Promise<FlowResult>} The status of the run and the failures it tolerated.
+   * @throws {Error} Throws an error if the flow is already running.
+   */
+  run = async (options: RunOptions = {}): Promise<FlowResult> => {
+    // A second run would reset the tasks, outputs and signal of the first one
+    if (this.abortController) {
+      throw new Error("Cannot run a flow that is already running");
+    }
+    if (this.options.validate) {
+      const errors = this.validate().filter(
+        (diagnostic) => diagnostic.severity === "error"
+      );
+      if (errors.length > 0) {
+        throw new FlowValidationError(errors);
+      }
+    }
+
+    const { controller: abortController, unlink } = linkAbortController(
+      options.signal
+    );
+    this.abortController = abortController;
+    this.resuming = options.resume || false;
+
+    this.inputs = options.inputs || {};
+    this.outputs = new Map();
+    this.scratch = new Map();
+    this.failures = [];
+
+    // Tasks completed before a restore are assumed to have completed in tree order
+    const previouslyCompleted = this.resuming
+      ? this.completedTasks.filter((task) => task.state === "completed")
+      : [];
+    this.completedTasks = [...previouslyCompleted];
+
+    if (!this.resuming) {
+      // Map groups compute their items again on every fresh run
+      const resetGroup = (taskGroup: TaskGroup) => {
+        delete taskGroup.startTime;
+        delete taskGroup.time;
+        if (taskGroup instanceof MapTaskGroup) {
+          taskGroup.collapse();
+        }
+        taskGroup.children.forEach((child) => {
+          if (child instanceof TaskGroup) {
+            resetGroup(child);
+          }
+        });
+      };
+      this.taskGroups.forEach(resetGroup);
+    }
+    this.forEachTask((task) => {
+      if (!this.resuming) {
+        task.state = "not_started";
+        task.time = 0;
+        task.attempts = [];
+        delete task.output;
+        delete task.skipReason;
+      } else if (task.state === "completed") {
+        if (task.output !== undefined) {
+          this.outputs.set(task.id, task.output);
+        }
+        if (!previouslyCompleted.includes(task)) {
+          this.completedTasks.push(task);
+        }
+      }
+    });
+    this.saveState();
+
+    const span = this.options.tracer?.startSpan("flow", {
+      kind: "flow",
+      attributes: {
+        "flow.scheduler": this.options.scheduler || "groups",
+        "flow.resume": this.resuming,
+      },
+    });
+    let spanError: unknown;
+
+    let deadlineTimer: ReturnType<typeof setTimeout> | undefined;
+    if (options.deadline !== undefined) {
+      const remaining =
+        options.deadline instanceof Date
+          ? options.deadline.getTime() - Date.now()
+          : options.deadline;
+      deadlineTimer = setTimeout(() => {
+        abortController.abort(
+          new TimeoutError("The flow did not finish before its deadline")
+        );
+      }, Math.max(0, remaining));
+    }
+
+    try {
+      // Unknown resources are reported before anything runs
+      this.assertKnownResources();
+      if (this.options.scheduler === "graph") {
+        await this.runGraph(span);
       } else {
-        await this.runTaskGroup(task);
+        const visited = new Set<TaskGroup>();
+        let jump: PendingJump | undefined;
+        let taskGroup: TaskGroup | undefined;
+        const onFailure = this.createFailureHandler(this.getFailurePolicy());
+        while ((taskGroup = nextUnvisited(this.taskGroups, visited))) {
+          visited.add(taskGroup);
+          this.abortController?.signal.throwIfAborted();
+          jump = await this.runTaskGroup(taskGroup, jump, span).catch(
+            onFailure
+          );
+        }
+      }
+      span?.setAttribute("flow.failures", this.failures.length);
+      await this.notify("flowComplete", this.getSerializedState());
+      return {
+        status: this.failures.length > 0 ? "partially_failed" : "completed",
+        errors: [...this.failures],
+      } as FlowResult;
+    } catch (error) {
+      spanError = abortController.signal.aborted
+        ? abortController.signal.reason
+        : error;
+      if (!abortController.signal.aborted) {
+        if (this.options.rollback) {
+          await this.compensateCompletedTasks(abortController.signal);
+        }
+        throw error;
+      }
+
+      const reason = abortController.signal.reason;
+      this.forEachTask((task) => {
+        if (task.state === "not_started" || task.state === "waiting") {
+          task.state = "cancelled";
+        } else if (task.state === "in_progress") {
+          task.state = abortedState(reason);
+        }
+      });
+      await this.notify(
+        reason instanceof TimeoutError ? "timedOut" : "cancelled",
+        reason
+      );
+      throw reason;
+    } finally {
+      clearTimeout(deadlineTimer);
+      unlink();
+      if (this.abortController === abortController) {
+        delete this.abortController;
+        this.resuming = false;
+      }
+      this.saveState();
+      await this.pendingSave;
+      endSpan(span, spanError);
+    }
+  };
+
+  /**
+   * Retrieves the outputs recorded by the tasks of the current or last run.
+   *
+   * @returns {ReadonlyMap<TaskId, unknown>} The task outputs by task id.
+   */
+  getOutputs = (): ReadonlyMap<TaskId, unknown> => this.outputs;
+
+  /**
+   * Rolls back the last run by compensating its completed tasks in reverse completion order.
+   *
+   * Every completed task with a `compensate` function is compensated, even if the
+   * compensation of another task failed. Tasks without `compensate` keep their state.
+   * Runs fail with a rollback already done when the `rollback` option is set, so this
+   * is mostly useful to undo a successful or cancelled run.
+   *
+   * @param {Object} [options] - Options for the rollback.
+   * @param {AbortSignal} [options.signal] - Aborting this signal stops the rollback.
+   * @returns {Promise<RollbackResult>} The status of the rollback and the failed compensations.
+   * @throws {Error} Throws an error if the flow is running, or the abort reason if the rollback is aborted.
+   */
+  rollback = async (options: { signal?: AbortSignal } = {}) => {
+    if (this.abortController) {
+      throw new Error("Cannot roll back a running flow");
+    }
+
+    try {
+      return await this.compensateCompletedTasks(options.signal);
+    } finally {
+      this.saveState();
+      await this.pendingSave;
+    }
+  };
+
+  /**
+   * Compensates the completed tasks in reverse completion order.
+   *
+   * @param {AbortSignal} [signal] - The signal that stops the rollback.
+   * @returns {Promise<RollbackResult>} The status of the rollback and the failed compensations.
+   * @private
+   */
+  private compensateCompletedTasks = async (
+    signal?: AbortSignal
+  ): Promise<RollbackResult> => {
+    const errors: TaskFailure[] = [];
+    await this.notify("rollbackStarted");
+
+    const tasks = [...this.completedTasks].reverse();
+    for (const task of tasks) {
+      signal?.throwIfAborted();
+      if (task.state !== "completed" || !task.compensate) {
+        continue;
+      }
+
+      const compensating = task.runCompensation({
+        signal,
+        inputs: this.inputs,
+        outputs: this.outputs,
+        scratch: this.scratch,
+      });
+      // The task is marked as compensating synchronously when it starts running
+      this.saveState();
+      try {
+        await compensating;
+        this.saveState();
+        await this.notify("taskCompensated", task);
+      } catch (error) {
+        this.saveState();
+        if (signal?.aborted) {
+          throw error;
+        }
+        errors.push({ taskId: task.id, error });
+        await this.notify("compensationFailed", task, error);
       }
     }
 
-    this.emit("success", `task-group-completed: ${taskGroup.id}`);
+    const result: RollbackResult = {
+      status: errors.length > 0 ? "compensation_failed" : "compensated",
+      errors,
+    };
+    await this.notify("rollbackComplete", result);
+    return result;
   };
 
   /**
-   * Executes all task groups managed by the FlowControl instance.
+   * Retrieves the task failures of the current or last run, in the order they happened.
+   *
+   * @returns {TaskFailure[]} The failed tasks and their errors.
    */
-  run = async () => {
-    const taskGroups = Array.from(this.taskGroups.values());
-    for (const taskGroup of taskGroups) {
-      await this.runTaskGroup(taskGroup);
+  getFailures = (): TaskFailure[] => [...this.failures];
+
+  /**
+   * Cancels the run in progress, if any.
+   *
+   * @param {unknown} [reason] - The abort reason handed to tasks and rejected from `run()`.
+   *                             Defaults to a `CancelledError`.
+   */
+  cancel = (reason?: unknown) => {
+    this.abortController?.abort(reason ?? new CancelledError());
+  };
+
+  /**
+   * Pauses the flow.
+   *
+   * Tasks that are already running are allowed to finish, but no further task is
+   * started until `resume()` is called. Cancelling the run or reaching its deadline
+   * still works while the flow is paused. Pausing before `run()` holds the run
+   * before its first task.
+   */
+  pause = () => {
+    if (this.paused) {
+      return;
+    }
+    this.paused = true;
+    this.emit("paused");
+  };
+
+  /**
+   * Resumes a paused flow, starting the tasks that were held back.
+   */
+  resume = () => {
+    if (!this.paused) {
+      return;
+    }
+    this.paused = false;
+    const callbacks = this.resumeCallbacks;
+    this.resumeCallbacks = [];
+    callbacks.forEach((callback) => callback());
+    this.emit("resumed");
+  };
+
+  /**
+   * Checks whether the flow is currently paused.
+   *
+   * @returns {boolean} True if the flow is paused.
+   */
+  isPaused = () => this.paused;
+
+  /**
+   * Waits until the flow is no longer paused.
+   *
+   * @returns {Promise<void>} A promise that resolves once the flow is resumed, or rejects
+   *                          with the abort reason if the run is aborted in the meantime.
+   * @private
+   */
+  private waitWhilePaused = async () => {
+    if (!this.paused) {
+      return;
+    }
+
+    const signal = this.abortController?.signal;
+    let resumed = () => {};
+    try {
+      await raceSignal(
+        new Promise<void>((resolve) => {
+          resumed = resolve;
+          this.resumeCallbacks.push(resolve);
+        }),
+        signal
+      );
+    } finally {
+      // An aborted run no longer waits, so `resume()` has nothing to call
+      this.resumeCallbacks = this.resumeCallbacks.filter(
+        (callback) => callback !== resumed
+      );
     }
   };
 
@@ -343,64 +3102,293 @@ export class FlowControl extends EventEmitter {
     }
   };
 
+  /**
+   * Restores task states, times, attempts and outputs from a snapshot taken with `getSerializedState()`.
+   *
+   * Tasks and groups are matched by their id path, so the flow has to be built
+   * with the same structure as when the snapshot was taken. Entries that no longer
+   * exist in the flow are ignored and tasks missing from the snapshot start out as
+   * 'not_started'. Snapshots of version 1 of the schema have no attempts or outputs
+   * to restore. Follow up with `run({ resume: true })` to execute what is left.
+   *
+   * @param {SerializedState} serializedState - The snapshot to restore.
+   * @param {RestoreOptions} [options] - How to treat tasks that were in progress.
+   * @throws {Error} Throws an error, before changing anything, if the `error` policy is used
+   *                 and the snapshot contains tasks that were in progress.
+   *
+   * @example
+   * flowControl.restoreState(JSON.parse(fs.readFileSync('state.json', 'utf8')));
+   * await flowControl.run({ resume: true });
+   */
+  restoreState = (
+    serializedState: SerializedState,
+    options: RestoreOptions = {}
+  ) => {
+    const inProgressPolicy = options.inProgress || "rerun";
+
+    if (inProgressPolicy === "error") {
+      const inProgress: string[] = [];
+      const findInProgress = (entries: SerializedState, path: string[]) => {
+        Object.keys(entries).forEach((id) => {
+          const entry = entries[id];
+          if (entry.type === "task" && entry.state === "in_progress") {
+            inProgress.push([...path, id].join("/"));
+          }
+          findInProgress(entry.children || {}, [...path, id]);
+        });
+      };
+      findInProgress(serializedState, []);
+
+      if (inProgress.length > 0) {
+        throw new Error(
+          `Tasks were in progress when the state was saved: ${inProgress.join(", ")}`
+        );
+      }
+    }
+
+    const restoreTask = (task: Task, entry?: SerializedData) => {
+      task.attempts = [];
+      delete task.output;
+      delete task.skipReason;
+      if (!entry || entry.type !== "task") {
+        task.state = "not_started";
+        task.time = 0;
+        return;
+      }
+
+      task.time = entry.time;
+      task.attempts = (entry.attempts || []).map(restoreAttempt);
+      if (entry.output !== undefined) {
+        task.output = entry.output;
+      }
+      if (entry.skipReason !== undefined) {
+        task.skipReason = entry.skipReason;
+      }
+      if (entry.state === "compensating") {
+        // An interrupted compensation is undone by the next rollback
+        task.state = "completed";
+      } else if (entry.state === "waiting") {
+        // Waiting tasks had not started, they wait for their resources again
+        task.state = "not_started";
+      } else if (entry.state !== "in_progress") {
+        task.state = entry.state as TaskState;
+      } else if (inProgressPolicy === "assume_completed") {
+        task.state = "completed";
+      } else {
+        task.state = "not_started";
+        task.time = 0;
+        task.attempts = [];
+      }
+    };
+
+    const restoreGroup = (taskGroup: TaskGroup, entry?: SerializedData) => {
+      delete taskGroup.startTime;
+      delete taskGroup.time;
+      // Groups that finished keep their clock, the others start over when resumed
+      const finished =
+        entry?.type === "task-group" &&
+        !["not_started", "in_progress", "paused"].includes(entry.state);
+      if (finished) {
+        taskGroup.startTime = entry.startTime;
+        taskGroup.time = entry.time;
+      }
+
+      if (taskGroup instanceof MapTaskGroup) {
+        // The tasks of a map group are recreated from the items in the snapshot
+        const entries = entry?.children || {};
+        const ids = Object.keys(entries).filter(
+          (id) => entries[id].type === "task" && "item" in entries[id]
+        );
+        if (ids.length > 0 || entry?.state === "completed") {
+          taskGroup.expand(ids.map((id) => entries[id].item), ids);
+        } else {
+          taskGroup.collapse();
+          if (entry?.state !== "skipped") {
+            delete taskGroup.startTime;
+            delete taskGroup.time;
+          }
+        }
+      }
+
+      taskGroup.children.forEach((child, id) => {
+        const childEntry = entry?.children?.[id];
+        if (child instanceof Task) {
+          restoreTask(child, childEntry);
+        } else {
+          restoreGroup(child, childEntry);
+        }
+      });
+    };
+
+    this.taskGroups.forEach((taskGroup, id) =>
+      restoreGroup(taskGroup, serializedState[id])
+    );
+
+    // The completion order is not part of the snapshot, tree order is the best guess
+    this.completedTasks = [];
+    this.forEachTask((task) => {
+      if (task.state === "completed") {
+        this.completedTasks.push(task);
+      }
+    });
+  };
+
   /**
    * Serializes the state of all task groups into a structured format.
    *
+   * Group times are wall-clock durations: the time between the group starting
+   * and finishing, or the time elapsed so far while it is still running. Groups
+   * that have not been run report the sum of their children's times. While the
+   * flow is paused, groups that have started but have nothing running are
+   * reported as 'paused'. Groups whose failure policy was breached are 'failed',
+   * groups that tolerated failures are 'partially_failed', and groups with tasks
+   * undone by a rollback are 'compensated', or 'compensation_failed' if any of
+   * their compensations failed.
+   *
+   * Tasks also report their attempts with any errors, their output and why they
+   * were skipped. The result follows version 2 of the schema, see
+   * `validateSerializedState()`.
+   *
    * @returns {SerializedState} The serialized state of all task groups.
    */
   getSerializedState = (): SerializedState => {
+    const serializeTask = (task: Task): SerializedData => {
+      const taskData: SerializedData = {
+        type: "task",
+        state: task.state || "not_started",
+        time: task.time || 0,
+        attemptCount: task.attempts.length,
+        attempts: task.attempts.map(serializeAttempt),
+      };
+      if (task.attempts.length > 0) {
+        const lastAttempt = task.attempts[task.attempts.length - 1];
+        taskData.startTime = task.attempts[0].startTime;
+        // A failed attempt with a delay is waiting for its retry
+        const retryPending =
+          lastAttempt.delay !== undefined && lastAttempt.state === task.state;
+        if (task.state !== "in_progress" && !retryPending) {
+          taskData.endTime = lastAttempt.endTime;
+        }
+      }
+      if (task.output !== undefined) {
+        taskData.output = task.output;
+      }
+      if (task.skipReason !== undefined) {
+        taskData.skipReason = task.skipReason;
+      }
+      if (task.waitingFor !== undefined) {
+        taskData.waitingFor = [...task.waitingFor];
+      }
+      return taskData;
+    };
+
     const serializeTaskGroup = (taskGroup: TaskGroup): SerializedData => {
       let groupState: SerializedState = {};
       let totalTime = 0;
-      let hasInProgress = false;
-      let allCompleted = true;
+      const childStates: TaskGroupState[] = [];
 
       taskGroup.children.forEach((child, id) => {
-        let childTime = (child as Task).time || 0;
-        totalTime += childTime;
-
         if (child instanceof Task) {
-          groupState[id] = {
-            type: "task",
-            state: child.state || "not_started",
-            time: childTime,
-          };
-
-          if (child.state === "in_progress") {
-            hasInProgress = true;
-          }
-          if (child.state !== "completed") {
-            allCompleted = false;
+          const childTime = child.time || 0;
+          totalTime += childTime;
+          groupState[id] = serializeTask(child);
+          const item =
+            taskGroup instanceof MapTaskGroup
+              ? taskGroup.getItem(id)
+              : undefined;
+          if (item !== undefined) {
+            groupState[id].item = item;
           }
         } else {
           const childGroupData = serializeTaskGroup(child);
+          totalTime += childGroupData.time;
           groupState[id] = {
             ...childGroupData,
             type: "task-group",
           };
-
-          if (childGroupData.state === "in_progress") {
-            hasInProgress = true;
-          }
-          if (childGroupData.state !== "completed") {
-            allCompleted = false;
-          }
         }
+        childStates.push(groupState[id].state);
       });
 
-      let groupStatus = "not_started";
-      if (hasInProgress) {
+      const isRunning =
+        taskGroup.startTime !== undefined && taskGroup.time === undefined;
+      const failures = childStates.filter(
+        (state) => state === "failed" || state === "timed_out"
+      );
+      const isDone = (state: TaskGroupState) =>
+        state === "completed" || state === "skipped";
+
+      let groupStatus: TaskGroupState = "not_started";
+      if (
+        childStates.includes("in_progress") ||
+        childStates.includes("waiting")
+      ) {
         groupStatus = "in_progress";
-      } else if (allCompleted) {
+      } else if (childStates.includes("compensating")) {
+        groupStatus = "compensating";
+      } else if (this.paused && isRunning) {
+        groupStatus = "paused";
+      } else if (childStates.includes("compensation_failed")) {
+        groupStatus = "compensation_failed";
+      } else if (
+        isPolicyBreached(this.getFailurePolicy(taskGroup), failures.length)
+      ) {
+        groupStatus = failures.every((state) => state === "timed_out")
+          ? "timed_out"
+          : "failed";
+      } else if (childStates.includes("cancelled")) {
+        groupStatus = "cancelled";
+      } else if (childStates.includes("compensated")) {
+        groupStatus = "compensated";
+      } else if (
+        failures.length > 0 ||
+        childStates.includes("partially_failed")
+      ) {
+        groupStatus = isRunning ? "in_progress" : "partially_failed";
+      } else if (childStates.length > 0 && childStates.every(isDone)) {
+        groupStatus = childStates.every((state) => state === "skipped")
+          ? "skipped"
+          : "completed";
+      } else if (isRunning) {
+        groupStatus = "in_progress";
+      } else if (childStates.length === 0 && taskGroup.time !== undefined) {
+        // Empty groups that ran, including map groups without items
         groupStatus = "completed";
+        if (taskGroup instanceof MapTaskGroup && !taskGroup.expanded) {
+          const error = taskGroup.expansionError;
+          if (error === undefined) {
+            groupStatus = "skipped";
+          } else if (
+            error instanceof CancelledError ||
+            error instanceof TimeoutError
+          ) {
+            groupStatus = abortedState(error);
+          } else {
+            groupStatus = "failed";
+          }
+        }
       }
 
-      return {
+      let groupTime = totalTime;
+      if (taskGroup.time !== undefined) {
+        groupTime = taskGroup.time;
+      } else if (isRunning) {
+        groupTime = Date.now() - taskGroup.startTime!;
+      }
+
+      const groupData: SerializedData = {
         type: "task-group",
-        state: groupStatus as any,
-        time: totalTime,
-        children: groupState,
+        state: groupStatus,
+        time: groupTime,
       };
+      if (taskGroup.startTime !== undefined) {
+        groupData.startTime = taskGroup.startTime;
+        if (taskGroup.time !== undefined) {
+          groupData.endTime = taskGroup.startTime + taskGroup.time;
+        }
+      }
+      groupData.children = groupState;
+      return groupData;
     };
 
     let state: SerializedState = {};
@@ -0,0 +1,45 @@
+import { promises as fs } from "fs";
+import type { SpanData, SpanExporter } from "./tracing";
+
+/**
+ * Appends every finished span as a line of JSON to a file.
+ *
+ * Writes happen one after the other in the order the spans ended. Call
+ * `shutdown()` to wait for the pending writes before exiting.
+ *
+ * @param {string} filePath - The path of the file, created if missing.
+ *
+ * @example
+ * const exporter = new JsonLinesSpanExporter('./spans.jsonl');
+ * const flowControl = new FlowControl({ tracer: new BasicTracer(exporter) });
+ * await flowControl.run();
+ * await exporter.shutdown();
+ */
+export class JsonLinesSpanExporter implements SpanExporter {
+  filePath: string;
+  private pendingWrite: Promise<void>;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    this.pendingWrite = Promise.resolve();
+  }
+
+  export(spans: SpanData[]) {
+    const lines = spans.map((span) => `${JSON.stringify(span)}\n`).join("");
+    const write = this.pendingWrite.then(() =>
+      fs.appendFile(this.filePath, lines)
+    );
+    // Keep the queue going after a failed write, the caller gets the error
+    this.pendingWrite = write.catch(() => {});
+    return write;
+  }
+
+  /**
+   * Waits for every pending write.
+   *
+   * @returns {Promise<void>} A promise that resolves once all spans are written.
+   */
+  shutdown() {
+    return this.pendingWrite;
+  }
+}
@@ -0,0 +1,9 @@
+/**
+ * The Node.js entry point, imported as `flow-like-water/node`.
+ *
+ * It holds the parts that read or write files or parse YAML, so the main entry
+ * point stays free of Node.js modules and can be bundled for browsers.
+ */
+export * from "./workflow";
+export * from "./file-state-store";
+export * from "./json-lines-span-exporter";
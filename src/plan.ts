@@ -0,0 +1,144 @@
+/**
+ * What a run would do with a task or task group.
+ *
+ * - `run`: the task would be executed, or the group would be entered.
+ * - `skip`: the task would be skipped, see the `reason` of its step.
+ * - `completed`: an earlier run already completed the task or group, so a
+ *   resumed run leaves it alone.
+ */
+export type PlanAction = "run" | "skip" | "completed";
+
+/**
+ * A task or task group in an execution plan.
+ *
+ * @property {string} id - The identifier of the task or task group.
+ * @property {"task" | "task-group"} type - Whether the step is a task or a task group.
+ * @property {string[]} path - The ids of the enclosing task groups, outermost first.
+ * @property {PlanAction} action - What the run would do with it.
+ * @property {string} [reason] - Why a task would be skipped, or why the tasks of a map task group
+ *                               are not known yet.
+ */
+export type PlanStep = {
+  id: string;
+  type: "task" | "task-group";
+  path: string[];
+  action: PlanAction;
+  reason?: string;
+};
+
+/**
+ * A dependency between two tasks, from the task that has to finish first to
+ * the task waiting on it.
+ */
+export type PlanEdge = [from: string, to: string];
+
+/**
+ * The preview of a run returned by `FlowControl.plan()`.
+ *
+ * Plans are plain data, so they can be stored as JSON and compared with a later
+ * plan through `diffPlans()`.
+ *
+ * @property {"groups" | "graph"} scheduler - The scheduler the run would use.
+ * @property {PlanStep[]} steps - Every task and task group, in the order the run would reach them.
+ * @property {PlanEdge[]} edges - Every dependency declared through `nextTasks` and `dependsOn`.
+ */
+export type ExecutionPlan = {
+  scheduler: "groups" | "graph";
+  steps: PlanStep[];
+  edges: PlanEdge[];
+};
+
+/**
+ * The differences between two execution plans.
+ *
+ * Steps are matched by their type and id, so a step that only moved to
+ * another position is not reported.
+ *
+ * @property {PlanStep[]} added - The steps only found in the new plan.
+ * @property {PlanStep[]} removed - The steps only found in the previous plan.
+ * @property {Array} changed - The steps whose action, reason or path changed, before and after.
+ * @property {PlanEdge[]} addedEdges - The dependencies only found in the new plan.
+ * @property {PlanEdge[]} removedEdges - The dependencies only found in the previous plan.
+ */
+export type PlanDiff = {
+  added: PlanStep[];
+  removed: PlanStep[];
+  changed: Array<{ previous: PlanStep; next: PlanStep }>;
+  addedEdges: PlanEdge[];
+  removedEdges: PlanEdge[];
+};
+
+const stepKey = (step: PlanStep) => `${step.type}:${step.id}`;
+
+const edgeKey = ([from, to]: PlanEdge) => JSON.stringify([from, to]);
+
+/**
+ * Formats an execution plan as text, one line per step indented by its depth,
+ * followed by the dependencies.
+ *
+ * The output only depends on the plan, so two formatted plans can be compared
+ * with any line based diff tool.
+ *
+ * @param {ExecutionPlan} plan - The plan to format.
+ * @returns {string} The formatted plan.
+ *
+ * @example
+ * process.stdout.write(formatPlan(await flowControl.plan({ resume: true })));
+ * // Provision [run]
+ * //   setup [completed]
+ * //   install [skip: Skipped by its guard]
+ */
+export const formatPlan = (plan: ExecutionPlan) => {
+  const lines = plan.steps.map((step) => {
+    const status = step.reason ? `${step.action}: ${step.reason}` : step.action;
+    return `${"  ".repeat(step.path.length)}${step.id} [${status}]`;
+  });
+  if (plan.edges.length > 0) {
+    lines.push("Dependencies:");
+    plan.edges.forEach(([from, to]) => lines.push(`  ${from} -> ${to}`));
+  }
+  return `${lines.join("\n")}\n`;
+};
+
+/**
+ * Compares two execution plans, e.g. the plan of a flow before and after a
+ * change to its definition or to its inputs.
+ *
+ * @param {ExecutionPlan} previous - The earlier plan.
+ * @param {ExecutionPlan} next - The new plan.
+ * @returns {PlanDiff} The differences, empty lists if the plans are equivalent.
+ */
+export const diffPlans = (
+  previous: ExecutionPlan,
+  next: ExecutionPlan
+): PlanDiff => {
+  const previousSteps = new Map(
+    previous.steps.map((step) => [stepKey(step), step])
+  );
+  const nextSteps = new Map(next.steps.map((step) => [stepKey(step), step]));
+  const previousEdges = new Set(previous.edges.map(edgeKey));
+  const nextEdges = new Set(next.edges.map(edgeKey));
+
+  const changed: PlanDiff["changed"] = [];
+  next.steps.forEach((step) => {
+    const before = previousSteps.get(stepKey(step));
+    if (
+      before &&
+      (before.action !== step.action ||
+        before.reason !== step.reason ||
+        JSON.stringify(before.path) !== JSON.stringify(step.path))
+    ) {
+      changed.push({ previous: before, next: step });
+    }
+  });
+
+  return {
+    added: next.steps.filter((step) => !previousSteps.has(stepKey(step))),
+    removed: previous.steps.filter((step) => !nextSteps.has(stepKey(step))),
+    changed,
+    addedEdges: next.edges.filter((edge) => !previousEdges.has(edgeKey(edge))),
+    removedEdges: previous.edges.filter(
+      (edge) => !nextEdges.has(edgeKey(edge))
+    ),
+  };
+};
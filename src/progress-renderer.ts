@@ -0,0 +1,262 @@
+import type {
+  FlowControl,
+  FlowControlEvents,
+  SerializedState,
+  TaskGroupState,
+} from "./index";
+
+/**
+ * Options for a `ProgressRenderer`.
+ *
+ * @property {Object} [output=process.stdout] - The stream to write to. Its `isTTY` flag decides the default mode.
+ * @property {boolean} [interactive] - Redraw a tree in place instead of logging lines. Defaults to true when
+ *                                     `output` is a TTY and the `CI` environment variable is not set.
+ * @property {number} [interval=80] - The time in milliseconds between two spinner frames in interactive mode.
+ */
+export type ProgressRendererOptions = {
+  output?: { write(text: string): unknown; isTTY?: boolean };
+  interactive?: boolean;
+  interval?: number;
+};
+
+const SPINNER = ["⠋", "⠙", "⠹", "⠸", "⠼", "⠴", "⠦", "⠧", "⠇", "⠏"];
+
+const SYMBOLS: Record<TaskGroupState, string> = {
+  not_started: "○",
+  waiting: "◷",
+  in_progress: "▶",
+  completed: "✔",
+  failed: "✖",
+  skipped: "↷",
+  cancelled: "⊘",
+  timed_out: "⏱",
+  paused: "‖",
+  partially_failed: "◐",
+  compensating: "↺",
+  compensated: "↺",
+  compensation_failed: "✖",
+};
+
+const formatDuration = (time: number) =>
+  time < 1000 ? `${time}ms` : `${(time / 1000).toFixed(1)}s`;
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+const isCI = () => {
+  const ci = typeof process !== "undefined" ? process.env.CI : undefined;
+  return ci !== undefined && ci !== "" && ci !== "false";
+};
+
+/**
+ * Renders the progress of a flow in a terminal.
+ *
+ * On a TTY the renderer keeps a single tree of groups and tasks up to date in
+ * place, with spinners for running tasks, durations, retry counts and failure
+ * messages. Otherwise, or in CI, it logs one line per event so the output stays
+ * readable in log files.
+ *
+ * @param {FlowControl} flowControl - The flow to render.
+ * @param {ProgressRendererOptions} [options] - Where and how to render.
+ *
+ * @example
+ * const renderer = new ProgressRenderer(flowControl).start();
+ * try {
+ *   await flowControl.run();
+ * } finally {
+ *   renderer.stop();
+ * }
+ */
+export class ProgressRenderer {
+  flowControl: FlowControl;
+  interactive: boolean;
+  private output: { write(text: string): unknown };
+  private interval: number;
+  private timer?: ReturnType<typeof setInterval>;
+  private frame: number;
+  private renderedLines: number;
+  private startTimes: Map<string, number>;
+  private retries: Map<string, number>;
+  private errors: Map<string, string>;
+  private unsubscribers: Array<() => void>;
+
+  constructor(flowControl: FlowControl, options: ProgressRendererOptions = {}) {
+    const output = options.output || process.stdout;
+    this.flowControl = flowControl;
+    this.output = output;
+    this.interactive = options.interactive ?? (!!output.isTTY && !isCI());
+    this.interval = options.interval ?? 80;
+    this.frame = 0;
+    this.renderedLines = 0;
+    this.startTimes = new Map();
+    this.retries = new Map();
+    this.errors = new Map();
+    this.unsubscribers = [];
+  }
+
+  /**
+   * Subscribes to the events of the flow and starts rendering.
+   *
+   * @returns {ProgressRenderer} The renderer, for chaining.
+   */
+  start() {
+    if (this.unsubscribers.length > 0) {
+      return this;
+    }
+
+    this.listen("taskStarted", (task) => {
+      this.startTimes.set(task.id, Date.now());
+      this.retries.delete(task.id);
+      this.errors.delete(task.id);
+      this.log(`${SYMBOLS.in_progress} ${task.id} started`);
+    });
+    this.listen("taskComplete", (task) =>
+      this.log(
+        `${SYMBOLS.completed} ${task.id} completed in ` +
+          formatDuration(task.time || 0)
+      )
+    );
+    this.listen("taskRetry", (task, retry) => {
+      this.retries.set(task.id, retry.attempt);
+      this.log(
+        `↻ ${task.id} attempt ${retry.attempt} failed, retrying in ` +
+          `${formatDuration(retry.delay)}: ${errorMessage(retry.error)}`
+      );
+    });
+    this.listen("taskFailed", (task, error) => {
+      this.errors.set(task.id, errorMessage(error));
+      this.log(`${SYMBOLS.failed} ${task.id} failed: ${errorMessage(error)}`);
+    });
+    this.listen("taskSkipped", (task) =>
+      this.log(`${SYMBOLS.skipped} ${task.id} skipped`)
+    );
+    this.listen("taskWaiting", (task, resources) =>
+      this.log(
+        `${SYMBOLS.waiting} ${task.id} waiting for ${resources.join(", ")}`
+      )
+    );
+    this.listen("taskWarning", (task, message) =>
+      this.log(`⚠ ${task.id}: ${message}`)
+    );
+    this.listen("taskCompensated", (task) =>
+      this.log(`${SYMBOLS.compensated} ${task.id} compensated`)
+    );
+    this.listen("compensationFailed", (task, error) => {
+      this.errors.set(task.id, errorMessage(error));
+      this.log(
+        `${SYMBOLS.compensation_failed} ${task.id} compensation failed: ` +
+          errorMessage(error)
+      );
+    });
+    this.listen("paused", () => this.log(`${SYMBOLS.paused} Flow paused`));
+    this.listen("resumed", () =>
+      this.log(`${SYMBOLS.in_progress} Flow resumed`)
+    );
+    this.listen("cancelled", (reason) =>
+      this.log(`${SYMBOLS.cancelled} Flow cancelled: ${errorMessage(reason)}`)
+    );
+    this.listen("timedOut", (reason) =>
+      this.log(`${SYMBOLS.timed_out} Flow timed out: ${errorMessage(reason)}`)
+    );
+
+    if (this.interactive) {
+      const timer = setInterval(() => {
+        this.frame = (this.frame + 1) % SPINNER.length;
+        this.render();
+      }, this.interval);
+      // The spinner alone must not keep the process alive, browsers have no `unref`
+      if (typeof timer === "object" && "unref" in timer) {
+        timer.unref();
+      }
+      this.timer = timer;
+      this.render();
+    }
+    return this;
+  }
+
+  /**
+   * Unsubscribes from the flow and, in interactive mode, draws the final tree.
+   */
+  stop() {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers = [];
+    clearInterval(this.timer);
+    delete this.timer;
+    if (this.interactive) {
+      this.render();
+    }
+  }
+
+  /**
+   * Formats the tree of groups and tasks with their current state.
+   *
+   * @returns {string[]} One line per group or task, indented by depth.
+   */
+  formatTree() {
+    const lines: string[] = [];
+    const visit = (state: SerializedState, depth: number) => {
+      Object.keys(state).forEach((id) => {
+        const entry = state[id];
+        const running =
+          entry.state === "in_progress" || entry.state === "compensating";
+        const symbol = running ? SPINNER[this.frame] : SYMBOLS[entry.state];
+        let line = `${"  ".repeat(depth)}${symbol} ${id}`;
+
+        const startTime = this.startTimes.get(id);
+        if (
+          entry.type === "task" &&
+          entry.state === "in_progress" &&
+          startTime
+        ) {
+          line += ` ${formatDuration(Date.now() - startTime)}`;
+        } else if (entry.time > 0) {
+          line += ` ${formatDuration(entry.time)}`;
+        }
+        const retries = this.retries.get(id);
+        if (retries) {
+          line += ` (${retries} ${retries === 1 ? "retry" : "retries"})`;
+        }
+        const error = this.errors.get(id);
+        if (error && entry.state !== "completed" && !running) {
+          line += ` - ${error}`;
+        }
+
+        lines.push(line);
+        if (entry.children) {
+          visit(entry.children, depth + 1);
+        }
+      });
+    };
+    visit(this.flowControl.getSerializedState(), 0);
+    return lines;
+  }
+
+  private listen<E extends keyof FlowControlEvents>(
+    event: E,
+    listener: (...args: FlowControlEvents[E]) => void
+  ) {
+    const wrapped = (...args: FlowControlEvents[E]) => {
+      listener(...args);
+      if (this.interactive) {
+        this.render();
+      }
+    };
+    this.flowControl.on(event, wrapped);
+    this.unsubscribers.push(() => this.flowControl.off(event, wrapped));
+  }
+
+  private log(line: string) {
+    if (!this.interactive) {
+      this.output.write(`${line}\n`);
+    }
+  }
+
+  // Moves the cursor back over the previous frame and draws the new one in its place
+  private render() {
+    const lines = this.formatTree();
+    const clear =
+      this.renderedLines > 0 ? `\x1b[${this.renderedLines}A\x1b[0J` : "";
+    this.output.write(`${clear}${lines.join("\n")}\n`);
+    this.renderedLines = lines.length;
+  }
+}
@@ -0,0 +1,229 @@
+/**
+ * A token bucket: up to `limit` uses per `interval`, refilled gradually.
+ *
+ * @property {number} limit - The number of uses allowed per interval, also the size of a burst.
+ * @property {number} interval - The length of the interval in milliseconds.
+ */
+export type RateLimit = {
+  limit: number;
+  interval: number;
+};
+
+/**
+ * Options of a shared resource, see `FlowControlOptions.resources`.
+ *
+ * @property {number} [maxConcurrency=Infinity] - The number of tasks that may hold the resource at once.
+ * @property {RateLimit} [rateLimit] - How often tasks may acquire the resource.
+ */
+export type ResourceOptions = {
+  maxConcurrency?: number;
+  rateLimit?: RateLimit;
+};
+
+type Waiter = {
+  resolve: () => void;
+  reject: (reason: unknown) => void;
+  signal?: AbortSignal;
+  onAbort: () => void;
+  // Holders only wait for a token, see `acquireToken()`
+  holding: boolean;
+};
+
+/**
+ * A resource shared by the tasks of a flow, combining a semaphore limiting how
+ * many tasks hold it at once with a token bucket limiting how often it is
+ * acquired.
+ *
+ * Tasks waiting for the resource are served in the order they asked for it,
+ * after the holders waiting for another token.
+ *
+ * @param {string} name - The name tasks refer to the resource by.
+ * @param {ResourceOptions} [options] - The limits of the resource.
+ * @throws {Error} Throws an error if a limit is not a positive number.
+ *
+ * @example
+ * // Three calls at a time, at most ten per second
+ * const clusterApi = new Resource('cluster-api', {
+ *   maxConcurrency: 3,
+ *   rateLimit: { limit: 10, interval: 1000 },
+ * });
+ */
+export class Resource {
+  name: string;
+  maxConcurrency: number;
+  rateLimit?: RateLimit;
+  private inUse: number;
+  private tokens: number;
+  private refilledAt: number;
+  private waiters: Waiter[];
+  private refillTimer?: ReturnType<typeof setTimeout>;
+
+  constructor(name: string, options: ResourceOptions = {}) {
+    this.name = name;
+    this.maxConcurrency = options.maxConcurrency ?? Infinity;
+    this.rateLimit = options.rateLimit;
+
+    if (!(this.maxConcurrency >= 1)) {
+      throw new Error(`Invalid maxConcurrency for resource ${name}`);
+    }
+    if (
+      this.rateLimit &&
+      !(this.rateLimit.limit >= 1 && this.rateLimit.interval > 0)
+    ) {
+      throw new Error(`Invalid rateLimit for resource ${name}`);
+    }
+
+    this.inUse = 0;
+    this.tokens = this.rateLimit?.limit ?? Infinity;
+    this.refilledAt = Date.now();
+    this.waiters = [];
+  }
+
+  /**
+   * The number of tasks holding the resource.
+   */
+  get holders() {
+    return this.inUse;
+  }
+
+  /**
+   * The number of tasks waiting for the resource.
+   */
+  get waiting() {
+    return this.waiters.length;
+  }
+
+  /**
+   * Acquires the resource straight away if it is available and nobody is waiting for it.
+   *
+   * @returns {boolean} True if the resource was acquired.
+   */
+  tryAcquire() {
+    if (this.waiters.length > 0 || !this.isAvailable()) {
+      return false;
+    }
+    this.take();
+    return true;
+  }
+
+  /**
+   * Waits for the resource and acquires it.
+   *
+   * @param {AbortSignal} [signal] - Aborting the signal stops waiting and rejects with its reason.
+   * @returns {Promise<void>} A promise that resolves once the resource is acquired.
+   */
+  acquire(signal?: AbortSignal) {
+    if (this.tryAcquire()) {
+      return Promise.resolve();
+    }
+    return this.enqueue(false, signal);
+  }
+
+  /**
+   * Takes another token from the rate limit for a task that already holds the
+   * resource, e.g. before it retries. Holders are served before the tasks waiting
+   * to acquire the resource, since those may be waiting for the holder to release it.
+   *
+   * @param {AbortSignal} [signal] - Aborting the signal stops waiting and rejects with its reason.
+   * @returns {Promise<void>} A promise that resolves once the token is taken.
+   */
+  acquireToken(signal?: AbortSignal) {
+    if (
+      !this.waiters.some((waiter) => waiter.holding) &&
+      this.isAvailable(true)
+    ) {
+      this.take(true);
+      return Promise.resolve();
+    }
+    return this.enqueue(true, signal);
+  }
+
+  private enqueue(holding: boolean, signal?: AbortSignal) {
+    return new Promise<void>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      const waiter: Waiter = {
+        resolve,
+        reject,
+        signal,
+        onAbort: () => {
+          this.waiters.splice(this.waiters.indexOf(waiter), 1);
+          reject(signal!.reason);
+          this.serve();
+        },
+        holding,
+      };
+      signal?.addEventListener("abort", waiter.onAbort, { once: true });
+      const index = holding
+        ? this.waiters.findIndex((queued) => !queued.holding)
+        : -1;
+      this.waiters.splice(
+        index === -1 ? this.waiters.length : index,
+        0,
+        waiter
+      );
+      this.serve();
+    });
+  }
+
+  /**
+   * Gives the resource back, letting the next waiting task acquire it.
+   */
+  release() {
+    this.inUse = Math.max(0, this.inUse - 1);
+    this.serve();
+  }
+
+  private refill() {
+    if (!this.rateLimit) {
+      return;
+    }
+    const now = Date.now();
+    const { limit, interval } = this.rateLimit;
+    this.tokens = Math.min(
+      limit,
+      this.tokens + ((now - this.refilledAt) * limit) / interval
+    );
+    this.refilledAt = now;
+  }
+
+  private isAvailable(holding = false) {
+    this.refill();
+    return (holding || this.inUse < this.maxConcurrency) && this.tokens >= 1;
+  }
+
+  private take(holding = false) {
+    if (!holding) {
+      this.inUse++;
+    }
+    this.tokens--;
+  }
+
+  // Hands the resource to waiting tasks for as long as it is available
+  private serve() {
+    while (
+      this.waiters.length > 0 &&
+      this.isAvailable(this.waiters[0].holding)
+    ) {
+      const waiter = this.waiters.shift()!;
+      waiter.signal?.removeEventListener("abort", waiter.onAbort);
+      this.take(waiter.holding);
+      waiter.resolve();
+    }
+
+    clearTimeout(this.refillTimer);
+    delete this.refillTimer;
+    if (
+      this.waiters.length > 0 &&
+      (this.waiters[0].holding || this.inUse < this.maxConcurrency) &&
+      this.rateLimit
+    ) {
+      // Only tokens are missing, so wake up when the next one is in the bucket
+      const { limit, interval } = this.rateLimit;
+      const delay = Math.ceil(((1 - this.tokens) * interval) / limit);
+      this.refillTimer = setTimeout(() => this.serve(), Math.max(1, delay));
+    }
+  }
+}
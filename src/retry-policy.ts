@@ -0,0 +1,175 @@
+/**
+ * Decides how often a failed task is retried and how long to wait in between.
+ *
+ * @property {number} maxRetries - The number of retries allowed after the first attempt.
+ * @property {Function} getDelay - Returns the time in milliseconds to wait before the given retry.
+ *                                 `retry` starts at 1 for the first retry and `previousDelay` is the
+ *                                 delay returned for the previous retry, or 0 before the first one.
+ */
+export interface RetryPolicy {
+  maxRetries: number;
+  getDelay(retry: number, previousDelay: number): number;
+}
+
+/**
+ * Waits the same amount of time before every retry.
+ *
+ * @param {Object} options - Configuration options for the policy.
+ * @param {number} options.retries - The number of retries after the first attempt.
+ * @param {number} options.delay - The time in milliseconds to wait before each retry.
+ *
+ * @example
+ * // Retry three times, one second apart
+ * new FixedBackoff({ retries: 3, delay: 1000 });
+ */
+export class FixedBackoff implements RetryPolicy {
+  maxRetries: number;
+  delay: number;
+
+  constructor(options: { retries: number; delay: number }) {
+    this.maxRetries = options.retries;
+    this.delay = options.delay;
+  }
+
+  getDelay() {
+    return this.delay;
+  }
+}
+
+/**
+ * Increases the wait by a constant amount before every retry.
+ *
+ * @param {Object} options - Configuration options for the policy.
+ * @param {number} options.retries - The number of retries after the first attempt.
+ * @param {number} options.initialDelay - The time in milliseconds to wait before the first retry.
+ * @param {number} options.increment - The time in milliseconds added to the wait for each following retry.
+ * @param {number} [options.maxDelay=Infinity] - The upper bound for the wait.
+ *
+ * @example
+ * // Wait 1s, 1.5s, 2s, 2.5s
+ * new LinearBackoff({ retries: 4, initialDelay: 1000, increment: 500 });
+ */
+export class LinearBackoff implements RetryPolicy {
+  maxRetries: number;
+  initialDelay: number;
+  increment: number;
+  maxDelay: number;
+
+  constructor(options: {
+    retries: number;
+    initialDelay: number;
+    increment: number;
+    maxDelay?: number;
+  }) {
+    this.maxRetries = options.retries;
+    this.initialDelay = options.initialDelay;
+    this.increment = options.increment;
+    this.maxDelay = options.maxDelay ?? Infinity;
+  }
+
+  getDelay(retry: number) {
+    return Math.min(
+      this.maxDelay,
+      this.initialDelay + this.increment * (retry - 1)
+    );
+  }
+}
+
+/**
+ * Multiplies the wait by a constant factor before every retry, up to a cap.
+ *
+ * @param {Object} options - Configuration options for the policy.
+ * @param {number} options.retries - The number of retries after the first attempt.
+ * @param {number} options.initialDelay - The time in milliseconds to wait before the first retry.
+ * @param {number} [options.factor=2] - The factor the wait is multiplied by for each following retry.
+ * @param {number} [options.maxDelay=Infinity] - The upper bound for the wait.
+ *
+ * @example
+ * // Wait 100ms, 200ms, 400ms, 800ms, 1000ms
+ * new ExponentialBackoff({ retries: 5, initialDelay: 100, maxDelay: 1000 });
+ */
+export class ExponentialBackoff implements RetryPolicy {
+  maxRetries: number;
+  initialDelay: number;
+  factor: number;
+  maxDelay: number;
+
+  constructor(options: {
+    retries: number;
+    initialDelay: number;
+    factor?: number;
+    maxDelay?: number;
+  }) {
+    this.maxRetries = options.retries;
+    this.initialDelay = options.initialDelay;
+    this.factor = options.factor ?? 2;
+    this.maxDelay = options.maxDelay ?? Infinity;
+  }
+
+  getDelay(retry: number) {
+    return Math.min(
+      this.maxDelay,
+      this.initialDelay * Math.pow(this.factor, retry - 1)
+    );
+  }
+}
+
+/**
+ * Picks a random wait based on the previous one ("decorrelated jitter").
+ *
+ * Each wait is drawn between `baseDelay` and three times the previous wait, and
+ * capped at `maxDelay`. This spreads out retries from many clients hitting the
+ * same backend while still backing off over time.
+ *
+ * @param {Object} options - Configuration options for the policy.
+ * @param {number} options.retries - The number of retries after the first attempt.
+ * @param {number} options.baseDelay - The minimum time in milliseconds to wait before a retry.
+ * @param {number} options.maxDelay - The upper bound for the wait.
+ * @param {Function} [options.random=Math.random] - The source of randomness, returning a number in [0, 1).
+ *
+ * @example
+ * new DecorrelatedJitterBackoff({ retries: 5, baseDelay: 100, maxDelay: 5000 });
+ */
+export class DecorrelatedJitterBackoff implements RetryPolicy {
+  maxRetries: number;
+  baseDelay: number;
+  maxDelay: number;
+  private random: () => number;
+
+  constructor(options: {
+    retries: number;
+    baseDelay: number;
+    maxDelay: number;
+    random?: () => number;
+  }) {
+    this.maxRetries = options.retries;
+    this.baseDelay = options.baseDelay;
+    this.maxDelay = options.maxDelay;
+    this.random = options.random || Math.random;
+  }
+
+  getDelay(_retry: number, previousDelay: number) {
+    const upper = Math.max(previousDelay, this.baseDelay) * 3;
+    return Math.min(
+      this.maxDelay,
+      this.baseDelay + this.random() * (upper - this.baseDelay)
+    );
+  }
+}
+
+/**
+ * The retry predicate used when a task does not provide its own `shouldRetry`.
+ *
+ * Errors that point to a bug in the task itself (`TypeError`, `ReferenceError`
+ * and `SyntaxError`) are not retried since running the same code again will not
+ * fix them. Every other error is retried.
+ *
+ * @param {unknown} error - The error thrown by the failed attempt.
+ * @returns {boolean} True if the task should be retried.
+ */
+export const defaultShouldRetry = (error: unknown) =>
+  !(
+    error instanceof TypeError ||
+    error instanceof ReferenceError ||
+    error instanceof SyntaxError
+  );
@@ -0,0 +1,643 @@
+import EventEmitter from "./event-emitter";
+import { CronExpression } from "./cron";
+import { CancelledError, TimeoutError } from "./errors";
+import { linkAbortController } from "./util";
+import type { FlowControl, FlowResult, RunOptions } from "./index";
+
+/**
+ * The source of time of a `FlowScheduler`. Inject a `ManualClock`, or your own
+ * implementation, to control time in tests.
+ */
+export interface Clock {
+  now(): number;
+  setTimeout(callback: () => void, delay: number): unknown;
+  clearTimeout(handle: unknown): void;
+}
+
+/**
+ * The clock of the system, based on `Date.now()` and the global timers.
+ */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, delay) => setTimeout(callback, delay),
+  clearTimeout: (handle) =>
+    clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+/**
+ * A clock that only moves when told to, for tests.
+ *
+ * @param {number} [now=0] - The initial timestamp in milliseconds.
+ *
+ * @example
+ * const clock = new ManualClock(Date.parse('2024-01-01T00:00:00Z'));
+ * const scheduler = new FlowScheduler({ clock });
+ * clock.advance(60 * 60 * 1000);
+ */
+export class ManualClock implements Clock {
+  private time: number;
+  private timers: Map<number, { callback: () => void; dueAt: number }>;
+  private nextHandle: number;
+
+  constructor(now = 0) {
+    this.time = now;
+    this.timers = new Map();
+    this.nextHandle = 1;
+  }
+
+  now() {
+    return this.time;
+  }
+
+  setTimeout(callback: () => void, delay: number) {
+    const handle = this.nextHandle++;
+    this.timers.set(handle, {
+      callback,
+      dueAt: this.time + Math.max(0, delay),
+    });
+    return handle;
+  }
+
+  clearTimeout(handle: unknown) {
+    this.timers.delete(handle as number);
+  }
+
+  /**
+   * Moves the clock forward, firing every timer that falls due on the way in order.
+   *
+   * @param {number} time - The number of milliseconds to move forward.
+   */
+  advance(time: number) {
+    const target = this.time + time;
+    for (;;) {
+      let next: number | undefined;
+      this.timers.forEach((timer, handle) => {
+        const earliest =
+          next === undefined || timer.dueAt < this.timers.get(next)!.dueAt;
+        if (timer.dueAt <= target && earliest) {
+          next = handle;
+        }
+      });
+      if (next === undefined) {
+        break;
+      }
+      const { callback, dueAt } = this.timers.get(next)!;
+      this.timers.delete(next);
+      this.time = Math.max(this.time, dueAt);
+      callback();
+    }
+    this.time = target;
+  }
+}
+
+/**
+ * When a schedule triggers a run.
+ *
+ * - `{ cron }` follows a cron expression, see `CronExpression`.
+ * - `{ every }` repeats every `every` milliseconds, starting at `from`, or one
+ *   interval after `lastRunAt` or the start of the scheduler.
+ * - `{ at }` runs once at the given time.
+ */
+export type ScheduleTrigger =
+  | { cron: string; utc?: boolean }
+  | { every: number; from?: Date | number }
+  | { at: Date | number };
+
+/**
+ * What to do when a run falls due while the flow is still running, started by
+ * the same schedule or by another schedule of the flow. A flow runs once at a time.
+ *
+ * - `skip` drops the new run.
+ * - `queue` starts the new run once the previous ones have finished.
+ * - `cancel-previous` cancels the running run, drops the queued ones and starts the new one
+ *   after it.
+ */
+export type OverlapPolicy = "skip" | "queue" | "cancel-previous";
+
+/**
+ * What to do with runs that were missed, because the process was not running or
+ * the event loop was blocked when they fell due.
+ *
+ * - `none` drops them.
+ * - `latest` makes up for all of them with a single run, unless a run is due anyway.
+ * - `all` runs every one of them, subject to the overlap policy.
+ */
+export type CatchUpPolicy = "none" | "latest" | "all";
+
+/**
+ * Options for `FlowScheduler.schedule()`.
+ *
+ * @property {ScheduleTrigger} trigger - When to run the flow.
+ * @property {OverlapPolicy} [overlap="skip"] - What to do when a run falls due while the previous one is still going.
+ * @property {CatchUpPolicy} [catchUp="none"] - What to do with missed runs.
+ * @property {number} [misfireThreshold=1000] - How late, in milliseconds, a run may start before it counts as missed.
+ * @property {number | Date} [lastRunAt] - When the schedule last ran, e.g. before the process restarted. Runs
+ *                                         that fell due since then count as missed when the scheduler starts.
+ * @property {RunOptions | Function} [runOptions] - The options of every run, or a function computing them
+ *                                                 from the run about to start.
+ * @property {number} [historyLimit=100] - The number of runs kept in the history of the schedule.
+ */
+export type ScheduleOptions = {
+  trigger: ScheduleTrigger;
+  overlap?: OverlapPolicy;
+  catchUp?: CatchUpPolicy;
+  misfireThreshold?: number;
+  lastRunAt?: number | Date;
+  runOptions?: RunOptions | ((run: ScheduledRun) => RunOptions);
+  historyLimit?: number;
+};
+
+/**
+ * The state of a scheduled run. Runs that finished take the status of the
+ * flow run: `completed`, `partially_failed`, `failed`, `cancelled` or `timed_out`.
+ */
+export type ScheduledRunStatus =
+  | "missed"
+  | "skipped"
+  | "queued"
+  | "running"
+  | "completed"
+  | "partially_failed"
+  | "failed"
+  | "cancelled"
+  | "timed_out";
+
+/**
+ * A run in the history of a schedule.
+ *
+ * @property {string} scheduleId - The identifier of the schedule.
+ * @property {number} scheduledAt - When the run fell due.
+ * @property {ScheduledRunStatus} status - The current state of the run.
+ * @property {boolean} catchUp - Whether the run makes up for a missed one.
+ * @property {number} [startedAt] - When the flow started running.
+ * @property {number} [endedAt] - When the flow finished running.
+ * @property {unknown} [error] - The error the flow run rejected with.
+ */
+export type ScheduledRun = {
+  scheduleId: string;
+  scheduledAt: number;
+  status: ScheduledRunStatus;
+  catchUp: boolean;
+  startedAt?: number;
+  endedAt?: number;
+  error?: unknown;
+};
+
+/**
+ * The events of a `FlowScheduler`. `runSkipped` covers runs dropped by the
+ * overlap policy, missed runs that are not caught up and queued runs dropped by
+ * `stop()` or `unschedule()`.
+ */
+export type FlowSchedulerEvents = {
+  runStarted: [run: ScheduledRun];
+  runFinished: [run: ScheduledRun];
+  runSkipped: [run: ScheduledRun];
+  error: [error: unknown];
+};
+
+type Schedule = {
+  id: string;
+  flowControl: FlowControl;
+  options: ScheduleOptions;
+  cron?: CronExpression;
+  // The first occurrence of an interval
+  from?: number;
+  // The last occurrence that has been handled
+  cursor?: number;
+  timer?: unknown;
+  history: ScheduledRun[];
+};
+
+// The run of a flow in progress and the runs waiting for it, across the schedules of the flow
+type FlowRuns = {
+  active?: Promise<void>;
+  // Cancels the active run, and only that run
+  controller?: AbortController;
+  queue: Array<{ schedule: Schedule; run: ScheduledRun }>;
+};
+
+// Timers cannot wait longer than about 24.8 days
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+// Runs made up for at once when the catch-up policy is `all`
+const MAX_CATCH_UP_RUNS = 1000;
+
+// Cron expressions match whole minutes, so due occurrences are searched to the minute
+const MINUTE = 60 * 1000;
+
+const failedStatus = (error: unknown): ScheduledRunStatus => {
+  if (error instanceof TimeoutError) {
+    return "timed_out";
+  }
+  return error instanceof CancelledError ? "cancelled" : "failed";
+};
+
+const toTime = (time: number | Date) =>
+  time instanceof Date ? time.getTime() : time;
+
+/**
+ * Triggers runs of flows from cron expressions, fixed intervals or one-off dates.
+ *
+ * Every schedule keeps a history of its runs, including the ones that were
+ * skipped because of the overlap policy or missed while the process was not
+ * running. Schedules only trigger runs between `start()` and `stop()`.
+ *
+ * @param {Object} [options] - Configuration options for the scheduler.
+ * @param {Clock} [options.clock=systemClock] - The source of time, see `ManualClock` for tests.
+ *
+ * @example
+ * const scheduler = new FlowScheduler();
+ * scheduler.schedule('nightly', flowControl, { trigger: { cron: '0 2 * * *' }, overlap: 'queue' });
+ * scheduler.start();
+ */
+export class FlowScheduler extends EventEmitter<FlowSchedulerEvents> {
+  clock: Clock;
+  private schedules: Map<string, Schedule>;
+  private flows: Map<FlowControl, FlowRuns>;
+  private running: boolean;
+
+  constructor(options: { clock?: Clock } = {}) {
+    super();
+    this.clock = options.clock || systemClock;
+    this.schedules = new Map();
+    this.flows = new Map();
+    this.running = false;
+  }
+
+  /**
+   * Adds a schedule, or replaces the schedule with the same identifier.
+   *
+   * @param {string} id - The unique identifier of the schedule.
+   * @param {FlowControl} flowControl - The flow to run.
+   * @param {ScheduleOptions} options - When and how to run the flow.
+   * @throws {Error} Throws an error if the trigger or an option is invalid.
+   */
+  schedule(id: string, flowControl: FlowControl, options: ScheduleOptions) {
+    const { trigger } = options;
+    if ("every" in trigger && !(trigger.every > 0)) {
+      throw new Error(`Invalid interval for schedule ${id}`);
+    }
+    if (!((options.historyLimit ?? 100) >= 0)) {
+      throw new Error(`Invalid historyLimit for schedule ${id}`);
+    }
+    if (!((options.misfireThreshold ?? 1000) >= 0)) {
+      throw new Error(`Invalid misfireThreshold for schedule ${id}`);
+    }
+
+    this.unschedule(id);
+    const schedule: Schedule = {
+      id,
+      flowControl,
+      options,
+      cron:
+        "cron" in trigger
+          ? new CronExpression(trigger.cron, { utc: trigger.utc })
+          : undefined,
+      history: [],
+    };
+    this.schedules.set(id, schedule);
+    if (this.running) {
+      this.arm(schedule, this.clock.now());
+    }
+  }
+
+  /**
+   * Removes a schedule. Its queued runs are skipped, a running run is left to finish.
+   *
+   * @param {string} id - The identifier of the schedule.
+   */
+  unschedule(id: string) {
+    const schedule = this.schedules.get(id);
+    if (schedule) {
+      this.disarm(schedule);
+      this.schedules.delete(id);
+    }
+  }
+
+  /**
+   * Starts triggering runs. Runs missed since `lastRunAt` are handled
+   * according to the catch-up policy of their schedule.
+   */
+  start() {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    const now = this.clock.now();
+    this.schedules.forEach((schedule) => this.arm(schedule, now));
+  }
+
+  /**
+   * Stops triggering runs and skips the queued ones.
+   *
+   * @param {Object} [options] - How to stop.
+   * @param {boolean} [options.cancel=false] - Cancel the runs in progress instead of letting them finish.
+   * @returns {Promise<void>} A promise that resolves once the runs in progress have finished.
+   */
+  async stop(options: { cancel?: boolean } = {}) {
+    this.running = false;
+    this.schedules.forEach((schedule) => this.disarm(schedule));
+    const active: Promise<void>[] = [];
+    this.flows.forEach((flow) => {
+      if (flow.active) {
+        active.push(flow.active);
+        if (options.cancel) {
+          flow.controller?.abort(new CancelledError());
+        }
+      }
+    });
+    await Promise.all(active);
+  }
+
+  /**
+   * Retrieves the runs of a schedule, oldest first.
+   *
+   * @param {string} id - The identifier of the schedule.
+   * @returns {ScheduledRun[]} The runs kept in the history, empty for unknown schedules.
+   */
+  getHistory(id: string): ScheduledRun[] {
+    return (this.schedules.get(id)?.history || []).map((run) => ({ ...run }));
+  }
+
+  /**
+   * Computes when a schedule runs next.
+   *
+   * @param {string} id - The identifier of the schedule.
+   * @returns {number | undefined} The timestamp of the next run, or undefined if the schedule
+   *                               does not exist or will not run again.
+   */
+  getNextRunTime(id: string): number | undefined {
+    const schedule = this.schedules.get(id);
+    if (!schedule) {
+      return undefined;
+    }
+    return this.nextOccurrence(schedule, schedule.cursor ?? this.clock.now());
+  }
+
+  /**
+   * Computes the first time a schedule falls due after a given time.
+   *
+   * @param {Schedule} schedule - The schedule.
+   * @param {number} after - The timestamp to start from, excluded.
+   * @returns {number | undefined} The timestamp, or undefined if there is none.
+   * @private
+   */
+  private nextOccurrence(schedule: Schedule, after: number) {
+    const { trigger } = schedule.options;
+    if ("cron" in trigger) {
+      return schedule.cron!.next(after);
+    }
+    if ("at" in trigger) {
+      const at = toTime(trigger.at);
+      return at > after ? at : undefined;
+    }
+    const from = schedule.from!;
+    if (after < from) {
+      return from;
+    }
+    const count = Math.floor((after - from) / trigger.every) + 1;
+    return from + count * trigger.every;
+  }
+
+  private arm(schedule: Schedule, now: number) {
+    if (schedule.cursor === undefined) {
+      const { lastRunAt, trigger } = schedule.options;
+      schedule.cursor = lastRunAt !== undefined ? toTime(lastRunAt) : now;
+      if ("every" in trigger) {
+        // Without `from`, intervals count from the last run or from the start
+        schedule.from =
+          trigger.from !== undefined
+            ? toTime(trigger.from)
+            : schedule.cursor + trigger.every;
+      }
+      // Runs missed while the scheduler was not running are due right away
+      if (schedule.cursor < now) {
+        schedule.timer = this.clock.setTimeout(() => this.wake(schedule), 0);
+        return;
+      }
+    }
+
+    const next = this.nextOccurrence(schedule, schedule.cursor);
+    if (next === undefined) {
+      return;
+    }
+    const delay = Math.min(Math.max(0, next - now), MAX_TIMER_DELAY);
+    schedule.timer = this.clock.setTimeout(() => this.wake(schedule), delay);
+  }
+
+  private disarm(schedule: Schedule) {
+    if (schedule.timer !== undefined) {
+      this.clock.clearTimeout(schedule.timer);
+      delete schedule.timer;
+    }
+    const flow = this.flows.get(schedule.flowControl);
+    if (flow) {
+      const dropped = flow.queue.filter(
+        (queued) => queued.schedule === schedule
+      );
+      flow.queue = flow.queue.filter((queued) => !dropped.includes(queued));
+      dropped.forEach(({ run }) => this.skip(run));
+    }
+  }
+
+  /**
+   * Triggers the runs that fell due since the schedule last woke up, then waits
+   * for the next one.
+   *
+   * @param {Schedule} schedule - The schedule whose timer fired.
+   * @private
+   */
+  private wake(schedule: Schedule) {
+    delete schedule.timer;
+    const now = this.clock.now();
+    const due = this.dueOccurrences(schedule, now);
+    if (due.length > 0) {
+      schedule.cursor = due[due.length - 1];
+    }
+
+    const threshold = schedule.options.misfireThreshold ?? 1000;
+    const missed = due.filter((time) => now - time > threshold);
+    const onTime = due.filter((time) => now - time <= threshold);
+    const catchUp = schedule.options.catchUp || "none";
+    missed.forEach((scheduledAt, index) => {
+      const isLatest = index === missed.length - 1 && onTime.length === 0;
+      if (catchUp === "all" || (catchUp === "latest" && isLatest)) {
+        this.trigger(schedule, scheduledAt, true);
+      } else {
+        this.skip(this.record(schedule, scheduledAt, "missed"));
+      }
+    });
+    onTime.forEach((scheduledAt) => this.trigger(schedule, scheduledAt, false));
+
+    if (this.running && this.schedules.get(schedule.id) === schedule) {
+      this.arm(schedule, now);
+    }
+  }
+
+  /**
+   * Collects the most recent occurrences of a schedule that fell due since its
+   * cursor, oldest first.
+   *
+   * Only the most recent occurrences matter after a long outage: as many as
+   * the catch-up policy may run, or as the history keeps otherwise. Intervals
+   * are computed directly. Other triggers are searched in a window ending now,
+   * narrowed down until it holds no more occurrences than needed, so the work
+   * does not grow with the length of the outage.
+   *
+   * @param {Schedule} schedule - The schedule whose timer fired.
+   * @param {number} now - The current time.
+   * @returns {number[]} The timestamps of the due occurrences.
+   * @private
+   */
+  private dueOccurrences(schedule: Schedule, now: number) {
+    const { trigger, catchUp, historyLimit } = schedule.options;
+    const limit =
+      catchUp === "all"
+        ? MAX_CATCH_UP_RUNS
+        : Math.min(MAX_CATCH_UP_RUNS, Math.max(1, historyLimit ?? 100));
+    const cursor = schedule.cursor!;
+
+    if ("every" in trigger) {
+      const first = this.nextOccurrence(schedule, cursor)!;
+      if (first > now) {
+        return [];
+      }
+      const total = Math.floor((now - first) / trigger.every) + 1;
+      const count = Math.min(total, limit);
+      return Array.from(
+        { length: count },
+        (_value, index) => first + (total - count + index) * trigger.every
+      );
+    }
+
+    // Gives up as soon as the window holds more occurrences than needed
+    const collect = (after: number) => {
+      const times: number[] = [];
+      let next = this.nextOccurrence(schedule, after);
+      while (next !== undefined && next <= now && times.length <= limit) {
+        times.push(next);
+        next = this.nextOccurrence(schedule, next);
+      }
+      return times;
+    };
+    let due = collect(cursor);
+    if (due.length <= limit) {
+      return due;
+    }
+    let fits = 0;
+    let overflows = now - cursor;
+    due = [];
+    while (overflows - fits > MINUTE) {
+      const window = Math.floor((fits + overflows) / 2);
+      const times = collect(now - window);
+      if (times.length > limit) {
+        overflows = window;
+      } else {
+        fits = window;
+        due = times;
+      }
+    }
+    return due;
+  }
+
+  private record(
+    schedule: Schedule,
+    scheduledAt: number,
+    status: ScheduledRunStatus,
+    catchUp = false
+  ) {
+    const run: ScheduledRun = {
+      scheduleId: schedule.id,
+      scheduledAt,
+      status,
+      catchUp,
+    };
+    schedule.history.push(run);
+    const limit = schedule.options.historyLimit ?? 100;
+    if (schedule.history.length > limit) {
+      schedule.history.splice(0, schedule.history.length - limit);
+    }
+    return run;
+  }
+
+  private skip(run: ScheduledRun) {
+    if (run.status !== "missed") {
+      run.status = "skipped";
+    }
+    this.emit("runSkipped", { ...run });
+  }
+
+  private trigger(schedule: Schedule, scheduledAt: number, catchUp: boolean) {
+    const run = this.record(schedule, scheduledAt, "queued", catchUp);
+    const flow = this.flows.get(schedule.flowControl);
+    if (!flow) {
+      this.startRun(schedule, run);
+      return;
+    }
+
+    switch (schedule.options.overlap || "skip") {
+      case "skip":
+        this.skip(run);
+        break;
+      case "queue":
+        flow.queue.push({ schedule, run });
+        break;
+      case "cancel-previous":
+        flow.queue.splice(0).forEach((queued) => this.skip(queued.run));
+        flow.queue.push({ schedule, run });
+        flow.controller?.abort(new CancelledError());
+        break;
+    }
+  }
+
+  private startRun(
+    schedule: Schedule,
+    run: ScheduledRun,
+    flow: FlowRuns = { queue: [] }
+  ) {
+    const { runOptions } = schedule.options;
+    let unlink = () => {};
+    this.flows.set(schedule.flowControl, flow);
+    run.status = "running";
+    run.startedAt = this.clock.now();
+    this.emit("runStarted", { ...run });
+
+    const settle = (status: ScheduledRunStatus, error?: unknown) => {
+      run.status = status;
+      run.endedAt = this.clock.now();
+      if (error !== undefined) {
+        run.error = error;
+      }
+      unlink();
+      delete flow.active;
+      delete flow.controller;
+      this.emit("runFinished", { ...run });
+      const queued = flow.queue.shift();
+      if (queued) {
+        this.startRun(queued.schedule, queued.run, flow);
+      } else {
+        this.flows.delete(schedule.flowControl);
+      }
+    };
+
+    let running: Promise<FlowResult>;
+    try {
+      const options =
+        typeof runOptions === "function" ? runOptions({ ...run }) : runOptions;
+      const link = linkAbortController(options?.signal);
+      unlink = link.unlink;
+      flow.controller = link.controller;
+      // Started synchronously, so a run can be cancelled as soon as it is triggered
+      running = schedule.flowControl.run({
+        ...options,
+        signal: link.controller.signal,
+      });
+    } catch (error) {
+      running = Promise.reject(error);
+    }
+    flow.active = running.then(
+      (result) => settle(result.status),
+      (error) => settle(failedStatus(error), error)
+    );
+  }
+}
@@ -0,0 +1,294 @@
+import { SchemaIssue, StateSchemaError } from "./errors";
+import type { SerializedState, TaskGroupState, TaskState } from "./index";
+
+/**
+ * The version of the serialized state schema written by this library.
+ */
+export const SERIALIZED_STATE_VERSION = 2;
+
+/**
+ * A serialized state together with the version of its schema, as written by the
+ * state stores.
+ *
+ * @property {number} version - The version of the schema, `SERIALIZED_STATE_VERSION` when written by this library.
+ * @property {SerializedState} state - The output of `getSerializedState()`.
+ */
+export type StateDocument = {
+  version: number;
+  state: SerializedState;
+};
+
+const TASK_STATES: TaskState[] = [
+  "not_started",
+  "waiting",
+  "completed",
+  "in_progress",
+  "failed",
+  "skipped",
+  "cancelled",
+  "timed_out",
+  "compensating",
+  "compensated",
+  "compensation_failed",
+];
+
+const GROUP_STATES: TaskGroupState[] = [
+  ...TASK_STATES,
+  "paused",
+  "partially_failed",
+];
+
+const TASK_KEYS = [
+  "type",
+  "state",
+  "time",
+  "startTime",
+  "endTime",
+  "attemptCount",
+  "attempts",
+  "output",
+  "skipReason",
+  "item",
+  "waitingFor",
+];
+
+const GROUP_KEYS = [
+  "type",
+  "state",
+  "time",
+  "startTime",
+  "endTime",
+  "children",
+];
+
+const ATTEMPT_KEYS = [
+  "attempt",
+  "startTime",
+  "endTime",
+  "state",
+  "delay",
+  "error",
+];
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const formatStates = (states: string[]) =>
+  states.map((state) => `"${state}"`).join(", ");
+
+/**
+ * Checks a value against the serialized state schema.
+ *
+ * Snapshots of version 1, with only `type`, `state`, `time` and `children`, are
+ * valid too since every property added by version 2 is optional. Entries are
+ * addressed by their ids in the reported paths, e.g. `$["Provision"].children["Setup"].state`.
+ *
+ * @param {unknown} value - The value to check, typically parsed from JSON.
+ * @returns {SchemaIssue[]} Every problem found, empty if the value is a valid serialized state.
+ *
+ * @example
+ * const issues = validateSerializedState(JSON.parse(source));
+ * if (issues.length === 0) {
+ *   flowControl.restoreState(JSON.parse(source));
+ * }
+ */
+export const validateSerializedState = (value: unknown): SchemaIssue[] => {
+  const issues: SchemaIssue[] = [];
+  const report = (path: string, message: string) =>
+    issues.push({ path, message });
+
+  const checkKeys = (
+    value: Record<string, any>,
+    keys: string[],
+    at: string
+  ) => {
+    Object.keys(value)
+      .filter((key) => !keys.includes(key))
+      .forEach((key) => report(`${at}.${key}`, "Unknown property"));
+  };
+
+  const checkNumber = (
+    value: Record<string, any>,
+    key: string,
+    at: string,
+    { min = 0, integer = false, required = false } = {}
+  ) => {
+    if (value[key] === undefined) {
+      if (required) {
+        report(`${at}.${key}`, "Required");
+      }
+      return;
+    }
+    const number = value[key];
+    if (
+      typeof number !== "number" ||
+      !(number >= min) ||
+      (integer && !Number.isInteger(number))
+    ) {
+      report(
+        `${at}.${key}`,
+        `Expected ${integer ? "an integer" : "a number"} of at least ${min}`
+      );
+    }
+  };
+
+  const checkState = (
+    value: Record<string, any>,
+    states: string[],
+    at: string
+  ) => {
+    if (value.state === undefined) {
+      report(`${at}.state`, "Required");
+    } else if (!states.includes(value.state)) {
+      report(`${at}.state`, `Expected one of ${formatStates(states)}`);
+    }
+  };
+
+  const checkError = (error: unknown, at: string) => {
+    if (
+      !isObject(error) ||
+      typeof error.name !== "string" ||
+      typeof error.message !== "string" ||
+      (error.stack !== undefined && typeof error.stack !== "string")
+    ) {
+      report(at, "Expected { name: string, message: string, stack?: string }");
+    }
+  };
+
+  const checkAttempts = (value: Record<string, any>, at: string) => {
+    if (value.attempts === undefined) {
+      return;
+    }
+    if (!Array.isArray(value.attempts)) {
+      report(`${at}.attempts`, "Expected an array of attempts");
+      return;
+    }
+    value.attempts.forEach((attempt: unknown, index: number) => {
+      const attemptAt = `${at}.attempts[${index}]`;
+      if (!isObject(attempt)) {
+        report(attemptAt, "Expected an attempt object");
+        return;
+      }
+      checkKeys(attempt, ATTEMPT_KEYS, attemptAt);
+      checkNumber(attempt, "attempt", attemptAt, {
+        min: 1,
+        integer: true,
+        required: true,
+      });
+      checkNumber(attempt, "startTime", attemptAt, { required: true });
+      checkNumber(attempt, "endTime", attemptAt, { required: true });
+      checkState(attempt, TASK_STATES, attemptAt);
+      checkNumber(attempt, "delay", attemptAt);
+      if (attempt.error !== undefined) {
+        checkError(attempt.error, `${attemptAt}.error`);
+      }
+    });
+  };
+
+  const checkEntries = (entries: unknown, at: string) => {
+    if (!isObject(entries)) {
+      report(at, "Expected an object of entries by id");
+      return;
+    }
+    Object.keys(entries).forEach((id) => {
+      checkEntry(entries[id], `${at}[${JSON.stringify(id)}]`);
+    });
+  };
+
+  const checkEntry = (entry: unknown, at: string) => {
+    if (!isObject(entry)) {
+      report(at, "Expected a task or task group entry");
+      return;
+    }
+
+    if (entry.type === "task") {
+      checkKeys(entry, TASK_KEYS, at);
+      checkState(entry, TASK_STATES, at);
+      checkNumber(entry, "attemptCount", at, { integer: true });
+      checkAttempts(entry, at);
+      if (
+        entry.skipReason !== undefined &&
+        typeof entry.skipReason !== "string"
+      ) {
+        report(`${at}.skipReason`, "Expected a string");
+      }
+      if (
+        entry.waitingFor !== undefined &&
+        !(
+          Array.isArray(entry.waitingFor) &&
+          entry.waitingFor.every((name: unknown) => typeof name === "string")
+        )
+      ) {
+        report(`${at}.waitingFor`, "Expected an array of strings");
+      }
+    } else if (entry.type === "task-group") {
+      checkKeys(entry, GROUP_KEYS, at);
+      checkState(entry, GROUP_STATES, at);
+      if (entry.children === undefined) {
+        report(`${at}.children`, "Required");
+      } else {
+        checkEntries(entry.children, `${at}.children`);
+      }
+    } else {
+      report(`${at}.type`, 'Expected "task" or "task-group"');
+      return;
+    }
+    checkNumber(entry, "time", at, { required: true });
+    checkNumber(entry, "startTime", at);
+    checkNumber(entry, "endTime", at);
+  };
+
+  checkEntries(value, "$");
+  return issues;
+};
+
+/**
+ * Wraps a serialized state with the current schema version, for storage.
+ *
+ * @param {SerializedState} state - The output of `getSerializedState()`.
+ * @returns {StateDocument} The versioned document.
+ */
+export const createStateDocument = (state: SerializedState): StateDocument => ({
+  version: SERIALIZED_STATE_VERSION,
+  state,
+});
+
+/**
+ * Extracts and validates the serialized state of a stored document.
+ *
+ * Documents written by `createStateDocument()` are unwrapped. Anything else is
+ * taken for a bare version 1 state, as saved before states were versioned.
+ *
+ * @param {unknown} document - The stored document, typically parsed from JSON.
+ * @returns {SerializedState} The serialized state, ready for `restoreState()`.
+ * @throws {StateSchemaError} Throws an error if the version is not supported or the state is invalid.
+ */
+export const readStateDocument = (document: unknown): SerializedState => {
+  // Serialized entries are objects, so a numeric `version` marks a document
+  if (!isObject(document) || typeof document.version !== "number") {
+    const issues = validateSerializedState(document);
+    if (issues.length > 0) {
+      throw new StateSchemaError(issues);
+    }
+    return document as SerializedState;
+  }
+
+  if (document.version < 1 || document.version > SERIALIZED_STATE_VERSION) {
+    throw new StateSchemaError([
+      {
+        path: "$.version",
+        message:
+          `Unsupported version ${document.version}, ` +
+          `expected 1 to ${SERIALIZED_STATE_VERSION}`,
+      },
+    ]);
+  }
+  const issues = validateSerializedState(document.state).map((issue) => ({
+    ...issue,
+    path: issue.path.replace(/^\$/, "$.state"),
+  }));
+  if (issues.length > 0) {
+    throw new StateSchemaError(issues);
+  }
+  return document.state;
+};
@@ -0,0 +1,44 @@
+import type { SerializedState } from "./index";
+import { createStateDocument, readStateDocument } from "./state-schema";
+
+/**
+ * Persists snapshots of a flow's state.
+ *
+ * `FlowControl` calls `save` with the output of `getSerializedState()` on every
+ * task transition when a store is configured. Implement this interface to keep
+ * snapshots in a database or any other storage.
+ *
+ * @property {Function} save - Stores a snapshot, replacing the previous one.
+ * @property {Function} load - Returns the last stored snapshot, or undefined if there is none.
+ *
+ * Stores should keep the schema version along with the snapshot, e.g. with
+ * `createStateDocument()` and `readStateDocument()`, so older snapshots can still
+ * be told apart once the schema changes.
+ */
+export interface StateStore {
+  save(state: SerializedState): Promise<void>;
+  load(): Promise<SerializedState | undefined>;
+}
+
+/**
+ * Keeps the latest snapshot in memory. Mostly useful for tests.
+ *
+ * @example
+ * const store = new MemoryStateStore();
+ * const flowControl = new FlowControl({ stateStore: store });
+ * await flowControl.run();
+ * console.log(await store.load());
+ */
+export class MemoryStateStore implements StateStore {
+  private state?: string;
+
+  async save(state: SerializedState) {
+    this.state = JSON.stringify(createStateDocument(state));
+  }
+
+  async load(): Promise<SerializedState | undefined> {
+    return this.state === undefined
+      ? undefined
+      : readStateDocument(JSON.parse(this.state));
+  }
+}
@@ -0,0 +1,215 @@
+import { serializeError } from "./util";
+
+export type SpanKind = "flow" | "group" | "task" | "attempt";
+
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+/**
+ * The outcome of a span, following OpenTelemetry: 'unset' until decided, then
+ * 'ok' or 'error' with a description.
+ */
+export type SpanStatus = {
+  code: "unset" | "ok" | "error";
+  message?: string;
+};
+
+/**
+ * A finished span, as handed to exporters.
+ *
+ * @property {string} traceId - The identifier shared by every span of a run, 32 hex characters.
+ * @property {string} spanId - The identifier of the span, 16 hex characters.
+ * @property {string} [parentSpanId] - The identifier of the enclosing span, absent for the flow span.
+ * @property {string} name - A human readable name, e.g. `task Setup Network`.
+ * @property {SpanKind} kind - Whether the span covers the flow, a group, a task or a single attempt.
+ * @property {number} startTime - The timestamp in milliseconds at which the span started.
+ * @property {number} endTime - The timestamp in milliseconds at which the span ended.
+ * @property {SpanStatus} status - The outcome of the span.
+ * @property {SpanAttributes} attributes - Details such as the task id or the attempt number.
+ * @property {Object} [error] - The error recorded on the span, if any.
+ */
+export type SpanData = {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: SpanKind;
+  startTime: number;
+  endTime: number;
+  status: SpanStatus;
+  attributes: SpanAttributes;
+  error?: { name: string; message: string; stack?: string };
+};
+
+/**
+ * A span that is still open. The methods mirror the OpenTelemetry `Span` API.
+ */
+export interface Span {
+  setAttribute(key: string, value: string | number | boolean): this;
+  setStatus(status: SpanStatus): this;
+  recordException(error: unknown): this;
+  end(endTime?: number): void;
+}
+
+/**
+ * Options for `Tracer.startSpan()`.
+ *
+ * @property {SpanKind} kind - What the span covers.
+ * @property {Span} [parent] - The enclosing span, if any.
+ * @property {SpanAttributes} [attributes] - The initial attributes.
+ * @property {number} [startTime=Date.now()] - When the span started, for spans recorded after the fact.
+ */
+export type SpanOptions = {
+  kind: SpanKind;
+  parent?: Span;
+  attributes?: SpanAttributes;
+  startTime?: number;
+};
+
+/**
+ * Creates the spans of a flow run.
+ *
+ * `FlowControl` calls `startSpan` for the run, every group, every task and every
+ * attempt of a task. Implement this interface on top of an OpenTelemetry tracer to
+ * send the spans to any OpenTelemetry backend, or use `BasicTracer` with one of
+ * the exporters of this module.
+ */
+export interface Tracer {
+  startSpan(name: string, options: SpanOptions): Span;
+}
+
+/**
+ * Receives the spans of a `BasicTracer` as soon as they end.
+ */
+export interface SpanExporter {
+  export(spans: SpanData[]): void | Promise<void>;
+}
+
+const randomHex = (length: number) => {
+  let hex = "";
+  for (let i = 0; i < length; i++) {
+    hex += Math.floor(Math.random() * 16).toString(16);
+  }
+  return hex;
+};
+
+class BasicSpan implements Span {
+  data: SpanData;
+  private tracer: BasicTracer;
+  private ended: boolean;
+
+  constructor(data: SpanData, tracer: BasicTracer) {
+    this.data = data;
+    this.tracer = tracer;
+    this.ended = false;
+  }
+
+  setAttribute(key: string, value: string | number | boolean) {
+    this.data.attributes[key] = value;
+    return this;
+  }
+
+  setStatus(status: SpanStatus) {
+    this.data.status = status;
+    return this;
+  }
+
+  recordException(error: unknown) {
+    this.data.error = serializeError(error);
+    return this;
+  }
+
+  end(endTime = Date.now()) {
+    if (this.ended) {
+      return;
+    }
+    this.ended = true;
+    this.data.endTime = endTime;
+    // A failing exporter must not break the flow being traced
+    const onError = (error: unknown) => this.tracer.onError?.(error);
+    try {
+      Promise.resolve(this.tracer.exporter.export([this.data])).catch(onError);
+    } catch (error) {
+      onError(error);
+    }
+  }
+}
+
+/**
+ * A minimal tracer handing every finished span to an exporter.
+ *
+ * Spans without a parent start a new trace; all other spans share the trace id
+ * of their parent.
+ *
+ * @param {SpanExporter} exporter - Where finished spans are sent.
+ * @param {Object} [options] - Configuration options for the tracer.
+ * @param {Function} [options.onError] - Called with the errors of the exporter. Without it, they are
+ *                                       ignored, so a failing exporter never breaks the flow.
+ *
+ * @example
+ * const exporter = new InMemorySpanExporter();
+ * const flowControl = new FlowControl({ tracer: new BasicTracer(exporter) });
+ * await flowControl.run();
+ * console.log(exporter.getFinishedSpans());
+ */
+export class BasicTracer implements Tracer {
+  exporter: SpanExporter;
+  onError?: (error: unknown) => void;
+
+  constructor(
+    exporter: SpanExporter,
+    options: { onError?: (error: unknown) => void } = {}
+  ) {
+    this.exporter = exporter;
+    this.onError = options.onError;
+  }
+
+  startSpan(name: string, options: SpanOptions): Span {
+    const parent =
+      options.parent instanceof BasicSpan ? options.parent.data : undefined;
+    return new BasicSpan(
+      {
+        traceId: parent ? parent.traceId : randomHex(32),
+        spanId: randomHex(16),
+        parentSpanId: parent?.spanId,
+        name,
+        kind: options.kind,
+        startTime: options.startTime ?? Date.now(),
+        endTime: 0,
+        status: { code: "unset" },
+        attributes: { ...options.attributes },
+      },
+      this
+    );
+  }
+}
+
+/**
+ * Keeps finished spans in memory. Mostly useful for tests.
+ */
+export class InMemorySpanExporter implements SpanExporter {
+  private spans: SpanData[];
+
+  constructor() {
+    this.spans = [];
+  }
+
+  export(spans: SpanData[]) {
+    this.spans.push(...spans);
+  }
+
+  /**
+   * Retrieves the spans exported so far, in the order they ended.
+   *
+   * @returns {SpanData[]} The finished spans.
+   */
+  getFinishedSpans() {
+    return [...this.spans];
+  }
+
+  /**
+   * Forgets every span exported so far.
+   */
+  reset() {
+    this.spans = [];
+  }
+}
@@ -3,8 +3,11 @@
  *
  * This method can be used to introduce a delay in code execution. The promise
  * will resolve after the specified time has elapsed, effectively creating a pause.
+ * When an `AbortSignal` is given, aborting it cancels the timer and rejects the
+ * promise with the signal's reason.
  *
  * @param {number} time - The duration in milliseconds for which the promise should wait before resolving.
+ * @param {AbortSignal} [signal] - An optional signal that interrupts the wait.
  * @returns {Promise<void>} A promise that resolves after the specified duration.
  *
  * @example
@@ -13,10 +16,163 @@
  *   console.log('2 seconds have passed');
  * });
  */
-export const wait = (time: number) => {
-  return new Promise<void>((resolve) => {
-    setTimeout(() => {
+export const wait = (time: number, signal?: AbortSignal) => {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
       resolve();
     }, time);
+    signal?.addEventListener("abort", onAbort, { once: true });
   });
 };
+
+/**
+ * Settles with the given promise unless the signal is aborted first.
+ *
+ * Aborting the signal rejects the returned promise with the signal's reason
+ * straight away, even if the original promise never settles. The original
+ * promise keeps running in the background; it is up to its owner to observe
+ * the signal and stop.
+ *
+ * @param {Promise<T>} promise - The promise to wait for.
+ * @param {AbortSignal} [signal] - An optional signal that interrupts the wait.
+ * @returns {Promise<T>} A promise settling like the original one, or rejecting when the signal aborts.
+ *
+ * @example
+ * const response = await raceSignal(fetchSomething(), controller.signal);
+ */
+export const raceSignal = <T>(promise: Promise<T>, signal?: AbortSignal) => {
+  if (!signal) {
+    return promise;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    Promise.resolve(promise).then(
+      (value) => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener("abort", onAbort);
+        reject(error);
+      }
+    );
+  });
+};
+
+/**
+ * Creates an `AbortController` that is aborted whenever the given signal aborts.
+ *
+ * This lets a caller abort a narrower scope (a single attempt, a single run)
+ * on its own while still following a broader signal. Call `unlink` once the
+ * controller is no longer needed so the listener on the parent signal is removed.
+ *
+ * @param {AbortSignal} [signal] - The optional parent signal to follow.
+ * @returns {{ controller: AbortController, unlink: Function }} The linked controller and a cleanup function.
+ *
+ * @example
+ * const { controller, unlink } = linkAbortController(parentSignal);
+ * try {
+ *   await doWork(controller.signal);
+ * } finally {
+ *   unlink();
+ * }
+ */
+export const linkAbortController = (signal?: AbortSignal) => {
+  const controller = new AbortController();
+  if (!signal) {
+    return { controller, unlink: () => {} };
+  }
+
+  const onAbort = () => controller.abort(signal.reason);
+  if (signal.aborted) {
+    onAbort();
+  } else {
+    signal.addEventListener("abort", onAbort, { once: true });
+  }
+  return {
+    controller,
+    unlink: () => signal.removeEventListener("abort", onAbort),
+  };
+};
+
+/**
+ * Runs an asynchronous worker over a list of items while keeping at most
+ * `limit` workers in flight at any one time.
+ *
+ * Items are picked up in order. If a worker rejects, no further items are
+ * started; the workers that are already running are allowed to settle and the
+ * first error encountered is then rethrown.
+ *
+ * @param {T[]} items - The items to process.
+ * @param {number} limit - The maximum number of workers running concurrently. `Infinity` runs every item at once.
+ * @param {Function} worker - The function invoked for each item along with its index.
+ * @returns {Promise<void>} A promise that resolves once every started worker has settled.
+ *
+ * @example
+ * // Download at most two files at a time
+ * await runWithConcurrency(urls, 2, async (url) => {
+ *   await download(url);
+ * });
+ */
+export const runWithConcurrency = async <T>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<void>
+) => {
+  let nextIndex = 0;
+  let firstError: unknown;
+  let failed = false;
+
+  const poolSize = Math.max(1, Math.min(limit, items.length));
+  const runners = Array.from({ length: poolSize }, async () => {
+    while (!failed && nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        await worker(items[index], index);
+      } catch (error) {
+        if (!failed) {
+          failed = true;
+          firstError = error;
+        }
+      }
+    }
+  });
+
+  await Promise.all(runners);
+
+  if (failed) {
+    throw firstError;
+  }
+};
+
+/**
+ * Converts an error into a plain object that survives `JSON.stringify()`.
+ *
+ * Values thrown that are not `Error` instances are converted to a string.
+ *
+ * @param {unknown} error - The error to convert.
+ * @returns {{ name: string, message: string, stack?: string }} The name, message and stack of the error.
+ */
+export const serializeError = (
+  error: unknown
+): { name: string; message: string; stack?: string } =>
+  error instanceof Error
+    ? { name: error.name, message: error.message, stack: error.stack }
+    : { name: "Error", message: String(error) };
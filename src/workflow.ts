@@ -0,0 +1,530 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import { parse as parseYaml } from "yaml";
+import { SchemaIssue, WorkflowSchemaError } from "./errors";
+import {
+  FailurePolicy,
+  FlowControl,
+  FlowControlOptions,
+  Task,
+  TaskGroup,
+} from "./index";
+
+/**
+ * A task in a workflow definition.
+ *
+ * Handlers are referenced by name and resolved from the `WorkflowHandlers`
+ * passed to the loader. Tasks without `checkCondition` are always considered
+ * ready.
+ *
+ * @property {string} id - The identifier of the task, unique across the workflow.
+ * @property {string} execute - The name of the `execute` handler.
+ * @property {string} [checkCondition] - The name of the `checkCondition` handler.
+ * @property {string} [compensate] - The name of the `compensate` handler.
+ * @property {number} [retries] - The number of retries after the first attempt.
+ * @property {number} [waitTime] - The time in milliseconds to wait before each retry.
+ * @property {number} [timeout] - The maximum time in milliseconds a single attempt may take.
+ * @property {number} [softTimeout] - The time in milliseconds after which a warning is emitted.
+ * @property {string[]} [nextTasks] - The identifiers of the tasks to run after this one.
+ * @property {string[]} [dependsOn] - The identifiers of the tasks that have to complete first.
+ */
+export type TaskDefinition = {
+  id: string;
+  execute: string;
+  checkCondition?: string;
+  compensate?: string;
+  retries?: number;
+  waitTime?: number;
+  timeout?: number;
+  softTimeout?: number;
+  nextTasks?: string[];
+  dependsOn?: string[];
+};
+
+/**
+ * A task group in a workflow definition. Any entry with `children` is a group.
+ *
+ * @property {string} id - The identifier of the group, unique across the workflow.
+ * @property {boolean} [parallel] - Run the children concurrently.
+ * @property {number} [maxConcurrency] - The maximum number of children running at once.
+ * @property {FailurePolicy} [failurePolicy] - How the group reacts to failing children.
+ * @property {Array} children - The tasks and groups of the group.
+ */
+export type TaskGroupDefinition = {
+  id: string;
+  parallel?: boolean;
+  maxConcurrency?: number;
+  failurePolicy?: FailurePolicy;
+  children: (TaskDefinition | TaskGroupDefinition)[];
+};
+
+/**
+ * A complete workflow definition, as stored in a JSON or YAML document.
+ *
+ * @property {number} [version=1] - The version of the schema.
+ * @property {Object} [options] - The options of the `FlowControl`.
+ * @property {TaskGroupDefinition[]} groups - The top-level task groups, in execution order.
+ *
+ * @example
+ * // workflow.yaml
+ * options:
+ *   failurePolicy: fail-fast
+ * groups:
+ *   - id: Provision Hardware
+ *     children:
+ *       - id: Setup Network
+ *         execute: setupNetwork
+ *         retries: 2
+ *         waitTime: 500
+ */
+export type WorkflowDefinition = {
+  version?: 1;
+  options?: Pick<
+    FlowControlOptions,
+    "scheduler" | "maxConcurrency" | "failurePolicy" | "rollback"
+  >;
+  groups: TaskGroupDefinition[];
+};
+
+/**
+ * The named handlers a workflow definition refers to.
+ *
+ * @property {Object} execute - The `execute` functions by name.
+ * @property {Object} [checkCondition] - The `checkCondition` functions by name.
+ * @property {Object} [compensate] - The `compensate` functions by name.
+ */
+export type WorkflowHandlers = {
+  execute: Record<string, Task["execute"]>;
+  checkCondition?: Record<string, Task["checkCondition"]>;
+  compensate?: Record<string, NonNullable<Task["compensate"]>>;
+};
+
+export type WorkflowFormat = "json" | "yaml";
+
+/**
+ * Options for `loadWorkflow()` and `loadWorkflowFile()`. On top of the format of
+ * the document, any `FlowControl` option can be given and takes precedence over
+ * the options of the document.
+ *
+ * @property {WorkflowFormat} [format] - The format of the document. YAML, a superset of JSON, by default.
+ */
+export type LoadWorkflowOptions = FlowControlOptions & {
+  format?: WorkflowFormat;
+};
+
+type Node = TaskDefinition | TaskGroupDefinition;
+
+const TASK_KEYS = [
+  "id",
+  "execute",
+  "checkCondition",
+  "compensate",
+  "retries",
+  "waitTime",
+  "timeout",
+  "softTimeout",
+  "nextTasks",
+  "dependsOn",
+];
+const GROUP_KEYS = [
+  "id",
+  "parallel",
+  "maxConcurrency",
+  "failurePolicy",
+  "children",
+];
+const OPTION_KEYS = [
+  "scheduler",
+  "maxConcurrency",
+  "failurePolicy",
+  "rollback",
+];
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isGroup = (node: Node): node is TaskGroupDefinition => "children" in node;
+
+/**
+ * Checks a parsed document against the workflow schema.
+ *
+ * Handler names are not resolved here since they depend on the registry, see
+ * `buildFlow()`.
+ *
+ * @param {unknown} document - The parsed JSON or YAML document.
+ * @returns {SchemaIssue[]} Every problem found, empty if the document is valid.
+ */
+export const validateWorkflow = (document: unknown): SchemaIssue[] => {
+  const issues: SchemaIssue[] = [];
+  const ids = new Map<string, string>();
+  const report = (path: string, message: string) =>
+    issues.push({ path, message });
+
+  const checkKeys = (
+    value: Record<string, any>,
+    keys: string[],
+    at: string
+  ) => {
+    Object.keys(value)
+      .filter((key) => !keys.includes(key))
+      .forEach((key) => report(`${at}.${key}`, "Unknown property"));
+  };
+
+  const checkNumber = (
+    value: Record<string, any>,
+    key: string,
+    at: string,
+    { min = 0, integer = false } = {}
+  ) => {
+    if (value[key] === undefined) {
+      return;
+    }
+    const number = value[key];
+    if (
+      typeof number !== "number" ||
+      !(number >= min) ||
+      (integer && !Number.isInteger(number))
+    ) {
+      report(
+        `${at}.${key}`,
+        `Expected ${integer ? "an integer" : "a number"} of at least ${min}`
+      );
+    }
+  };
+
+  const checkString = (
+    value: Record<string, any>,
+    key: string,
+    at: string,
+    required = false
+  ) => {
+    if (value[key] === undefined) {
+      if (required) {
+        report(`${at}.${key}`, "Required");
+      }
+    } else if (typeof value[key] !== "string" || value[key] === "") {
+      report(`${at}.${key}`, "Expected a non-empty string");
+    }
+  };
+
+  const checkStringList = (
+    value: Record<string, any>,
+    key: string,
+    at: string
+  ) => {
+    if (value[key] === undefined) {
+      return;
+    }
+    if (!Array.isArray(value[key])) {
+      report(`${at}.${key}`, "Expected an array of task ids");
+      return;
+    }
+    value[key].forEach((item: unknown, index: number) => {
+      if (typeof item !== "string") {
+        report(`${at}.${key}[${index}]`, "Expected a task id");
+      }
+    });
+  };
+
+  const checkFailurePolicy = (value: Record<string, any>, at: string) => {
+    const policy = value.failurePolicy;
+    if (
+      policy === undefined ||
+      policy === "fail-fast" ||
+      policy === "continue" ||
+      (isObject(policy) &&
+        Object.keys(policy).length === 1 &&
+        Number.isInteger(policy.maxFailures) &&
+        policy.maxFailures >= 0)
+    ) {
+      return;
+    }
+    report(
+      `${at}.failurePolicy`,
+      'Expected "fail-fast", "continue" or ' +
+        "{ maxFailures: <integer of at least 0> }"
+    );
+  };
+
+  const checkNode = (node: unknown, at: string) => {
+    if (!isObject(node)) {
+      report(at, "Expected a task or task group object");
+      return;
+    }
+
+    checkString(node, "id", at, true);
+    if (typeof node.id === "string" && node.id !== "") {
+      const previous = ids.get(node.id);
+      if (previous !== undefined) {
+        report(
+          `${at}.id`,
+          `Duplicate id "${node.id}", first used at ${previous}`
+        );
+      } else {
+        ids.set(node.id, `${at}.id`);
+      }
+    }
+
+    if ("children" in node) {
+      checkGroup(node, at);
+    } else {
+      checkKeys(node, TASK_KEYS, at);
+      checkString(node, "execute", at, true);
+      checkString(node, "checkCondition", at);
+      checkString(node, "compensate", at);
+      checkNumber(node, "retries", at, { integer: true });
+      checkNumber(node, "waitTime", at);
+      checkNumber(node, "timeout", at);
+      checkNumber(node, "softTimeout", at);
+      checkStringList(node, "nextTasks", at);
+      checkStringList(node, "dependsOn", at);
+    }
+  };
+
+  const checkGroup = (group: Record<string, any>, at: string) => {
+    checkKeys(group, GROUP_KEYS, at);
+    if (group.parallel !== undefined && typeof group.parallel !== "boolean") {
+      report(`${at}.parallel`, "Expected a boolean");
+    }
+    checkNumber(group, "maxConcurrency", at, { min: 1, integer: true });
+    checkFailurePolicy(group, at);
+    if (!Array.isArray(group.children)) {
+      report(`${at}.children`, "Expected an array of tasks and task groups");
+      return;
+    }
+    group.children.forEach((child: unknown, index: number) =>
+      checkNode(child, `${at}.children[${index}]`)
+    );
+  };
+
+  if (!isObject(document)) {
+    report("$", "Expected an object with a groups array");
+    return issues;
+  }
+
+  checkKeys(document, ["version", "options", "groups"], "$");
+  if (document.version !== undefined && document.version !== 1) {
+    report("$.version", "Unsupported version, expected 1");
+  }
+
+  if (document.options !== undefined) {
+    const options = document.options;
+    if (!isObject(options)) {
+      report("$.options", "Expected an object");
+    } else {
+      checkKeys(options, OPTION_KEYS, "$.options");
+      if (
+        options.scheduler !== undefined &&
+        options.scheduler !== "groups" &&
+        options.scheduler !== "graph"
+      ) {
+        report("$.options.scheduler", 'Expected "groups" or "graph"');
+      }
+      checkNumber(options, "maxConcurrency", "$.options", {
+        min: 1,
+        integer: true,
+      });
+      checkFailurePolicy(options, "$.options");
+      if (
+        options.rollback !== undefined &&
+        typeof options.rollback !== "boolean"
+      ) {
+        report("$.options.rollback", "Expected a boolean");
+      }
+    }
+  }
+
+  if (!Array.isArray(document.groups)) {
+    report("$.groups", "Expected an array of task groups");
+    return issues;
+  }
+  document.groups.forEach((group: unknown, index: number) => {
+    const at = `$.groups[${index}]`;
+    if (isObject(group) && !("children" in group)) {
+      report(`${at}.children`, "Top-level entries have to be task groups");
+    }
+    checkNode(group, at);
+  });
+
+  return issues;
+};
+
+/**
+ * Parses and validates a workflow document.
+ *
+ * @param {string} source - The JSON or YAML document.
+ * @param {WorkflowFormat} [format="yaml"] - The format of the document.
+ * @returns {WorkflowDefinition} The validated definition.
+ * @throws {WorkflowSchemaError} Throws an error listing every problem if the document
+ *                               cannot be parsed or does not match the schema.
+ */
+export const parseWorkflow = (
+  source: string,
+  format: WorkflowFormat = "yaml"
+): WorkflowDefinition => {
+  let document: unknown;
+  try {
+    document = format === "json" ? JSON.parse(source) : parseYaml(source);
+  } catch (error) {
+    throw new WorkflowSchemaError([
+      { path: "$", message: (error as Error).message },
+    ]);
+  }
+
+  const issues = validateWorkflow(document);
+  if (issues.length > 0) {
+    throw new WorkflowSchemaError(issues);
+  }
+  return document as WorkflowDefinition;
+};
+
+/**
+ * Builds a `FlowControl` from a workflow definition, resolving handler names
+ * from the registry.
+ *
+ * @param {WorkflowDefinition} definition - The workflow definition.
+ * @param {WorkflowHandlers} handlers - The handlers the definition refers to.
+ * @param {FlowControlOptions} [options] - Options overriding the ones of the definition.
+ * @returns {FlowControl} A flow holding the task groups of the definition.
+ * @throws {WorkflowSchemaError} Throws an error if the definition does not match the
+ *                               schema or refers to unknown handlers.
+ *
+ * @example
+ * const flowControl = buildFlow(definition, {
+ *   execute: { setupNetwork: async () => configureSwitches() },
+ * });
+ */
+export const buildFlow = (
+  definition: WorkflowDefinition,
+  handlers: WorkflowHandlers,
+  options: FlowControlOptions = {}
+) => {
+  const issues = validateWorkflow(definition);
+  if (issues.length > 0) {
+    throw new WorkflowSchemaError(issues);
+  }
+
+  const resolve = <T>(
+    registry: Record<string, T> | undefined,
+    name: string,
+    at: string
+  ) => {
+    if (!registry || !Object.prototype.hasOwnProperty.call(registry, name)) {
+      issues.push({ path: at, message: `Unknown handler "${name}"` });
+      return undefined;
+    }
+    return registry[name];
+  };
+
+  const buildTask = (definition: TaskDefinition, at: string) =>
+    new Task({
+      id: definition.id,
+      execute: resolve(handlers.execute, definition.execute, `${at}.execute`)!,
+      checkCondition:
+        definition.checkCondition === undefined
+          ? async () => true
+          : resolve(
+              handlers.checkCondition,
+              definition.checkCondition,
+              `${at}.checkCondition`
+            )!,
+      compensate:
+        definition.compensate === undefined
+          ? undefined
+          : resolve(
+              handlers.compensate,
+              definition.compensate,
+              `${at}.compensate`
+            ),
+      retries: definition.retries,
+      waitTime: definition.waitTime,
+      timeout: definition.timeout,
+      softTimeout: definition.softTimeout,
+      nextTasks: definition.nextTasks,
+      dependsOn: definition.dependsOn,
+    });
+
+  const buildGroup = (definition: TaskGroupDefinition, at: string) => {
+    const taskGroup = new TaskGroup(definition.id, {
+      parallel: definition.parallel,
+      maxConcurrency: definition.maxConcurrency,
+      failurePolicy: definition.failurePolicy,
+    });
+    definition.children.forEach((child, index) => {
+      const childAt = `${at}.children[${index}]`;
+      taskGroup.addChild(
+        isGroup(child) ? buildGroup(child, childAt) : buildTask(child, childAt)
+      );
+    });
+    return taskGroup;
+  };
+
+  const taskGroups = definition.groups.map((group, index) =>
+    buildGroup(group, `$.groups[${index}]`)
+  );
+  if (issues.length > 0) {
+    throw new WorkflowSchemaError(issues);
+  }
+
+  const flowControl = new FlowControl({ ...definition.options, ...options });
+  taskGroups.forEach((taskGroup) => flowControl.addGroup(taskGroup));
+  return flowControl;
+};
+
+/**
+ * Builds a `FlowControl` from a JSON or YAML document.
+ *
+ * @param {string} source - The JSON or YAML document.
+ * @param {WorkflowHandlers} handlers - The handlers the document refers to.
+ * @param {LoadWorkflowOptions} [options] - The format of the document and options for the flow.
+ * @returns {FlowControl} A flow holding the task groups of the document.
+ * @throws {WorkflowSchemaError} Throws an error listing every problem with the document.
+ */
+export const loadWorkflow = (
+  source: string,
+  handlers: WorkflowHandlers,
+  options: LoadWorkflowOptions = {}
+) => {
+  const { format, ...flowOptions } = options;
+  return buildFlow(parseWorkflow(source, format), handlers, flowOptions);
+};
+
+/**
+ * Reads and validates a workflow file. Files ending in `.json` are parsed as
+ * JSON, anything else as YAML, unless `format` says otherwise.
+ *
+ * @param {string} filePath - The path of the workflow file.
+ * @param {WorkflowFormat} [format] - The format of the file.
+ * @returns {Promise<WorkflowDefinition>} The validated definition.
+ * @throws {WorkflowSchemaError} Throws an error listing every problem with the file.
+ */
+export const readWorkflowFile = async (
+  filePath: string,
+  format?: WorkflowFormat
+) => {
+  const source = await fs.readFile(filePath, "utf8");
+  return parseWorkflow(
+    source,
+    format ||
+      (path.extname(filePath).toLowerCase() === ".json" ? "json" : "yaml")
+  );
+};
+
+/**
+ * Builds a `FlowControl` from a JSON or YAML file, see `readWorkflowFile()`.
+ *
+ * @param {string} filePath - The path of the workflow file.
+ * @param {WorkflowHandlers} handlers - The handlers the file refers to.
+ * @param {LoadWorkflowOptions} [options] - The format of the file and options for the flow.
+ * @returns {Promise<FlowControl>} A flow holding the task groups of the file.
+ * @throws {WorkflowSchemaError} Throws an error listing every problem with the file.
+ */
+export const loadWorkflowFile = async (
+  filePath: string,
+  handlers: WorkflowHandlers,
+  options: LoadWorkflowOptions = {}
+) => {
+  const { format, ...flowOptions } = options;
+  const definition = await readWorkflowFile(filePath, format);
+  return buildFlow(definition, handlers, flowOptions);
+};